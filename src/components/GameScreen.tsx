@@ -1,506 +1,160 @@
 import { useState, useEffect, useRef, useCallback } from "react";
 import { Button } from "@/components/ui/button";
-import { BirdType } from "./InsectSelectScreen";
 import { useAccount } from "wagmi";
 import { hitService, HitData } from "@/services/hitService";
-import { saveGameData } from "@/services/gameDataService";
+import { hasDailyAttempt, saveGameData, startDailyAttempt } from "@/services/gameDataService";
 import { useToast } from "@/hooks/use-toast";
+import { useGameEngine } from "@/hooks/use-game-engine";
+import { DifficultyId, getDifficulty, presetTuning, tunedDifficulty } from "@/game/difficulty";
+import { Insect, getInsect, isPenalty } from "@/game/catalog";
+import { ComboTracker } from "@/game/combo";
+import { formatAccuracy, swingStats } from "@/game/swingStats";
+import { ENDLESS_LIVES } from "@/game/endless";
+import { DAILY_DIFFICULTY, dailyKey, dailySeed } from "@/game/daily";
+import { Level, LevelStats, MAX_STARS, describeObjective, levelInsects, levelScript, levelStars, objectiveProgress } from "@/game/levels";
+import { SoloMode, SwingRecord } from "@/game/types";
+import PowerUpTimers from "./PowerUpTimers";
+import PracticePanel from "./PracticePanel";
 import { ExternalLink } from "lucide-react";
 import { Toaster } from "@/components/ui/toaster";
 import HandTrackingView from "./HandTrackingView";
+import HandCalibration from "./HandCalibration";
+import { useHandCalibration } from "@/hooks/use-hand-calibration";
+import { FULL_FRAME, mapToReach } from "@/lib/handCalibration";
+import { useCursorFilter } from "@/hooks/use-cursor-filter";
+import HandSettingsPanel from "./HandSettingsPanel";
+import { GestureEvent } from "@/lib/gestures";
+import { HAND_LAYOUTS, HandLayout, Handedness, PLAYER_COLORS, batColors, batForHand, playerForBat, reachForBat } from "@/lib/handLayout";
+
+// Seconds counted down before a paused round picks up again
+const RESUME_COUNTDOWN = 3;
+const NO_COMBO = { streak: 0, multiplier: 1 };
+// How often the HUD clock is read off the engine (ms)
+const CLOCK_POLL_MS = 100;
 
 interface GameScreenProps {
   onBackToMenu: () => void;
+  difficulty?: DifficultyId;
+  mode?: SoloMode;
+  // Campaign or shared level to play instead of the preset's round
+  level?: Level;
+  onLevelComplete?: (levelId: string, stars: number) => void;
 }
 
-interface BirdPosition {
-  id: string;
-  bird: BirdType;
-  x: number;
-  y: number;
-  velocityX: number;
-  velocityY: number;
-  direction: 'left' | 'right';
-  initialY: number;
-  status: 'flying' | 'hit'; // New property to track the bird's state
-  animation: BirdAnimation;
-  // Internal fields for performance systems (pooling + spatial hash)
-  active?: boolean;
-  cellKey?: string;
-}
-
-interface CursorState {
-  x: number;
-  y: number;
-  isHitting: boolean;
-  hitFrame: number;
-  hitTimer: number;
-}
-
-interface SpriteData {
-  image: HTMLImageElement;
-  frameWidth: number;
-  frameHeight: number;
-  totalFrames: number;
-  rows: number;
-  columns: number;
-  duration: number;
-  loaded: boolean;
-}
-
-interface BirdAnimation {
-  currentFrame: number;
-  lastFrameTime: number;
-}
-
-const GameScreen = ({ onBackToMenu }: GameScreenProps) => {
+const GameScreen = ({ onBackToMenu, difficulty: difficultyId, mode = 'round', level, onLevelComplete }: GameScreenProps) => {
   const { address } = useAccount();
   const { toast } = useToast();
-  const [seconds, setSeconds] = useState(60);
-  // Birds are managed via refs in the unified animation manager (no React state)
+  const daily = mode === 'daily';
+  const difficulty = getDifficulty(level ? level.difficulty : daily ? DAILY_DIFFICULTY : difficultyId);
+  const roundDuration = level?.duration ?? difficulty.roundDuration;
+  const [levelSpawns] = useState(() => level && { insects: levelInsects(level), script: levelScript(level) });
+  // The daily's field is fixed by the day it was opened on, even if the run crosses midnight
+  const [dailyDate] = useState(dailyKey);
+  const seed = daily ? dailySeed(dailyDate) : undefined;
+  // Only a wallet's first started daily of the day is ranked; null until checked (or without a wallet)
+  const [dailyRanked, setDailyRanked] = useState<boolean | null>(null);
+  // The ranked run's attempt, claimed on the server as the run starts
+  const [dailyAttemptId, setDailyAttemptId] = useState<number | null>(null);
+  // Endless runs count time up and end when the lives run out instead of the clock
+  const endless = mode === 'endless';
+  // Practice starts at once, never ends, records nothing and can be tuned live
+  const practice = mode === 'practice';
+  const startSeconds = endless ? 0 : roundDuration;
+  const [seconds, setSeconds] = useState(startSeconds);
+  const [escapes, setEscapes] = useState(0);
+  const [bonusLives, setBonusLives] = useState(0);
+  const [wave, setWave] = useState(1);
+  const lives = Math.max(0, ENDLESS_LIVES + bonusLives - escapes);
+  // Birds live in the shared game engine (no React state)
   const [gameOver, setGameOver] = useState(false);
-  const [gameStarted, setGameStarted] = useState(false);
+  const [gameStarted, setGameStarted] = useState(practice);
   const [countdown, setCountdown] = useState(3);
-  const [cursor, setCursor] = useState<CursorState>({ x: 0, y: 0, isHitting: false, hitFrame: 0, hitTimer: 0 });
-  const batRef = useRef<HTMLDivElement | null>(null);
+  // A paused round stays on screen but frozen; resuming counts down from RESUME_COUNTDOWN first
+  const [paused, setPaused] = useState(false);
+  const [resumeIn, setResumeIn] = useState(0);
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const ctxRef = useRef<CanvasRenderingContext2D | null>(null);
-  const backgroundImageRef = useRef<HTMLImageElement | null>(null);
-  const spriteSheetsRef = useRef<{[key: string]: SpriteData}>({});
-  const cursorPosRef = useRef<{ x: number; y: number }>({ x: 0, y: 0 });
-  const birdsRef = useRef<BirdPosition[]>([]);
-  // Object pool for birds (inactive instances ready to be reused)
-  const birdPoolRef = useRef<BirdPosition[]>([]);
-  // Spatial hash grid mapping cell keys to sets of birds occupying that cell
-  const spatialHashRef = useRef<Map<string, Set<BirdPosition>>>(new Map());
-  const floatingPointsRef = useRef<Array<{ id: string; points: number; x: number; y: number; opacity: number }>>([]);
-  const cursorAnimRef = useRef<{ isHitting: boolean; hitFrame: number; hitTimer: number }>({ isHitting: false, hitFrame: 0, hitTimer: 0 });
-  const gameLoopRef = useRef<number | null>(null);
-  const lastFrameTimeRef = useRef<number>(0);
   const [hitHistory, setHitHistory] = useState<Array<{
     birdType: string;
     points: number;
+    multiplier: number;
     timestamp: number;
+    // 0, or 1 for the second player sharing the webcam
+    player: number;
   }>>([]);
-
-  // Floating points are animated via RAF using refs only (no React state)
+  // Catch streak per player; the trackers score swings, the state mirrors them for the HUD
+  const comboRefs = useRef(PLAYER_COLORS.map(() => new ComboTracker()));
+  const [combos, setCombos] = useState(PLAYER_COLORS.map(() => NO_COMBO));
+  // Every swing this round, hits and misses
+  const [swingHistory, setSwingHistory] = useState<SwingRecord[]>([]);
 
   // Hand mode toggle
   const [handModeEnabled, setHandModeEnabled] = useState(false);
-  // Direct hand coords (no smoothing for better responsiveness)
-  const currentHandPosRef = useRef<{ x: number; y: number } | null>(null);
-
-  // Calculate totals from hitHistory
+  // Palm positions are smoothed and predicted before they move the bat
+  const { settings: filterSettings, updateSettings: updateFilterSettings, filters: handFilters } = useCursorFilter();
+  const [showHandSettings, setShowHandSettings] = useState(false);
+  // In hand mode a caught timed power-up is held until the player makes a fist; a second one while holding applies at once
+  const [heldPowerUp, setHeldPowerUp] = useState<Insect | null>(null);
+  // The player's reach box maps onto the field; the wizard holds the round while it runs
+  const { reach, saveReach } = useHandCalibration();
+  const [calibrating, setCalibrating] = useState(false);
+  const [calibrationPalm, setCalibrationPalm] = useState<{ x: number; y: number } | null>(null);
+  // One hand, a bat in each hand, or two players sharing the webcam; only hand mode can have more than one bat
+  const [handLayout, setHandLayout] = useState<HandLayout>('one');
+  const layout = handModeEnabled ? handLayout : 'one';
+  const twoPlayer = HAND_LAYOUTS[layout].players > 1;
+
+  // Calculate totals from hitHistory (the team's, with two players)
   const score = hitHistory.reduce((sum, hit) => sum + hit.points, 0);
-  const hits = hitHistory.length;
+  // Friendly insects swatted cost points but aren't hits
+  const hits = hitHistory.filter(hit => hit.points >= 0).length;
+  const playerScores = PLAYER_COLORS.map((_, player) => hitHistory.filter(hit => hit.player === player).reduce((sum, hit) => sum + hit.points, 0));
+  // Only the wallet holder's play is recorded, so a round the second player scored in isn't saved
+  const sharedRound = hitHistory.some(hit => hit.player > 0);
 
   const gameContainerRef = useRef<HTMLDivElement>(null);
   const intervalRef = useRef<NodeJS.Timeout>();
-  // Removed secondary RAF; single unified gameLoop will handle update + render
-  const spawnTimeoutRef = useRef<NodeJS.Timeout>();
   const dieAudioRef = useRef<HTMLAudioElement | null>(null);
   const gunAudioRef = useRef<HTMLAudioElement | null>(null);
   const gameoverAudioRef = useRef<HTMLAudioElement | null>(null);
   const bgMusicRef = useRef<HTMLAudioElement | null>(null);
   const countdownAudioRef = useRef<HTMLAudioElement | null>(null);
 
-  // Responsive scaling based on game container size
-  const getScaledSize = useCallback((baseSize: number) => {
-    if (!gameContainerRef.current) return baseSize;
-    const container = gameContainerRef.current;
-    const containerWidth = container.clientWidth;
-    const containerHeight = container.clientHeight;
-    
-    // Use the smaller dimension to maintain proportions
-    const scaleFactor = Math.min(containerWidth / 896, containerHeight / 504); // 896x504 is max-w-4xl aspect-[16/9]
-    return Math.max(baseSize * scaleFactor, baseSize * 0.5); // Minimum 50% of original size
-  }, []);
-
-  // Initialize sprite sheets
-  const initializeSpriteSheets = useCallback(() => {
-    const spriteSheets = {
-      bee: {
-        frameWidth: 512,
-        frameHeight: 512,
-        totalFrames: 4,
-        rows: 1,
-        columns: 4,
-        duration: 0.4,
-        loaded: false
-      },
-      butterfly: {
-        frameWidth: 512,
-        frameHeight: 512,
-        totalFrames: 2,
-        rows: 1,
-        columns: 2,
-        duration: 0.2,
-        loaded: false
-      },
-      bluemouch: {
-        frameWidth: 360,
-        frameHeight: 360,
-        totalFrames: 150,
-        rows: 30,
-        columns: 5,
-        duration: 4.5,
-        loaded: false
-      },
-      mouch: {
-        frameWidth: 320,
-        frameHeight: 320,
-        totalFrames: 126,
-        rows: 26,
-        columns: 5,
-        duration: 5.04,
-        loaded: false
-      },
-      player: {
-        
-        frameWidth: 48,
-        frameHeight: 180,
-        totalFrames: 2,
-        rows: 1,
-        columns: 2,
-        duration: 0.2,
-        loaded: false
-      }
-    };
-
-    // Load all sprite images
-    Object.keys(spriteSheets).forEach(key => {
-      const sprite = spriteSheets[key as keyof typeof spriteSheets];
-      const img = new Image();
-      img.onload = () => {
-        // For the bat (player), compute frame size from actual image so we crop exactly one frame
-        if (key === 'player') {
-          const derivedFrameWidth = Math.floor(img.width / sprite.columns);
-          const derivedFrameHeight = Math.floor(img.height / sprite.rows);
-          spriteSheetsRef.current[key] = {
-            ...sprite,
-            frameWidth: derivedFrameWidth || sprite.frameWidth,
-            frameHeight: derivedFrameHeight || sprite.frameHeight,
-            image: img as HTMLImageElement,
-            loaded: true
-          } as SpriteData;
-        } else {
-          sprite.loaded = true;
-          spriteSheetsRef.current[key] = { ...sprite, image: img };
-        }
-      };
-      img.src = key === 'player' ? '/player.png' : `/spritesheet/${key}.png`;
-    });
-
-    // Load background image
-    const bgImg = new Image();
-    bgImg.onload = () => {
-      backgroundImageRef.current = bgImg;
-    };
-    bgImg.src = '/background.jpg';
-  }, []);
-
-  // Canvas drawing functions
-  const drawBackground = useCallback((ctx: CanvasRenderingContext2D, canvas: HTMLCanvasElement) => {
-    // Draw solid gradient background to match original
-    const gradient = ctx.createLinearGradient(0, 0, 0, canvas.height);
-    gradient.addColorStop(0, '#e0f2fe'); // sky-200
-    gradient.addColorStop(0.5, '#bfdbfe'); // blue-200  
-    gradient.addColorStop(1, '#93c5fd'); // blue-300
-    
-    ctx.fillStyle = gradient;
-    ctx.fillRect(0, 0, canvas.width, canvas.height);
-    
-    // Draw background image if loaded
-    if (backgroundImageRef.current) {
-      ctx.drawImage(backgroundImageRef.current, 0, 0, canvas.width, canvas.height);
-      
-      // Apply overlay to match original DOM implementation
-      const overlayGradient = ctx.createLinearGradient(0, 0, 0, canvas.height);
-      overlayGradient.addColorStop(0, 'rgba(186, 230, 253, 0.7)'); // sky-200/70
-      overlayGradient.addColorStop(0.5, 'rgba(147, 197, 253, 0.6)'); // blue-200/60
-      overlayGradient.addColorStop(1, 'rgba(147, 197, 253, 0.7)'); // blue-300/70
-      
-      ctx.fillStyle = overlayGradient;
-      ctx.fillRect(0, 0, canvas.width, canvas.height);
-    }
-  }, []);
-
-  const drawBird = useCallback((ctx: CanvasRenderingContext2D, bird: BirdPosition) => {
-    const sprite = spriteSheetsRef.current[bird.bird.name.toLowerCase().replace(' ', '')];
-    if (!sprite || !sprite.loaded) return;
-
-    const currentTime = Date.now();
-    const frameInterval = (sprite.duration * 1000) / sprite.totalFrames; // Time per frame in ms
-    
-    if (currentTime - bird.animation.lastFrameTime >= frameInterval) {
-      bird.animation.currentFrame = (bird.animation.currentFrame + 1) % sprite.totalFrames;
-      bird.animation.lastFrameTime = currentTime;
-    }
-
-    const frameCol = bird.animation.currentFrame % sprite.columns;
-    const frameRow = Math.floor(bird.animation.currentFrame / sprite.columns);
-    
-    const sourceX = frameCol * sprite.frameWidth;
-    const sourceY = frameRow * sprite.frameHeight;
-    
-    let renderSize = getScaledSize(80); // Base size
-    if (bird.bird.name === 'Bee') {
-      // Bee frames have large transparent padding; visually scale up to compensate
-      renderSize = Math.round(renderSize * 3.8);
-    }
-    
-    ctx.save();
-    
-    // Enable high quality scaling for this bird
-    ctx.imageSmoothingEnabled = true;
-    ctx.imageSmoothingQuality = 'high';
-    
-    ctx.translate(bird.x, bird.y);
-    
-    // Handle direction and hit state (match original transform logic)
-    if (bird.direction === 'right') {
-      ctx.scale(-1, 1);
-    }
-    if (bird.status === 'hit') {
-      ctx.scale(1, -1);
-      ctx.rotate(0.26); // 15 degrees
-    }
-    
-    ctx.drawImage(
-      sprite.image,
-      sourceX, sourceY, sprite.frameWidth, sprite.frameHeight,
-      -renderSize / 2, -renderSize / 2, renderSize, renderSize
-    );
-    
-    ctx.restore();
-  }, [getScaledSize]);
-
-  // --- Spatial hashing helpers ---
-  const getCellKeyFromXY = useCallback((x: number, y: number, cellSize: number) => {
-    const ix = Math.floor(x / cellSize);
-    const iy = Math.floor(y / cellSize);
-    return `${ix},${iy}`;
-  }, []);
-
-  const spatialInsert = useCallback((bird: BirdPosition, cellSize: number) => {
-    const key = getCellKeyFromXY(bird.x, bird.y, cellSize);
-    bird.cellKey = key;
-    let bucket = spatialHashRef.current.get(key);
-    if (!bucket) {
-      bucket = new Set<BirdPosition>();
-      spatialHashRef.current.set(key, bucket);
-    }
-    bucket.add(bird);
-  }, [getCellKeyFromXY]);
-
-  const spatialUpdateIfMoved = useCallback((bird: BirdPosition, cellSize: number) => {
-    const nextKey = getCellKeyFromXY(bird.x, bird.y, cellSize);
-    if (bird.cellKey === nextKey) return; // still in same cell
-    if (bird.cellKey) {
-      const prevBucket = spatialHashRef.current.get(bird.cellKey);
-      prevBucket?.delete(bird);
-      if (prevBucket && prevBucket.size === 0) spatialHashRef.current.delete(bird.cellKey);
-    }
-    bird.cellKey = nextKey;
-    let nextBucket = spatialHashRef.current.get(nextKey);
-    if (!nextBucket) {
-      nextBucket = new Set<BirdPosition>();
-      spatialHashRef.current.set(nextKey, nextBucket);
-    }
-    nextBucket.add(bird);
-  }, [getCellKeyFromXY]);
-
-  const spatialRemove = useCallback((bird: BirdPosition) => {
-    if (!bird.cellKey) return;
-    const bucket = spatialHashRef.current.get(bird.cellKey);
-    bucket?.delete(bird);
-    if (bucket && bucket.size === 0) spatialHashRef.current.delete(bird.cellKey);
-    bird.cellKey = undefined;
-  }, []);
-
-  const queryNearbyBirds = useCallback((x: number, y: number, radius: number) => {
-    const result: BirdPosition[] = [];
-    const cellSize = Math.max(1, radius * 2);
-    const ix = Math.floor(x / cellSize);
-    const iy = Math.floor(y / cellSize);
-    // Scan current cell and neighbors (3x3) to fully cover the circle
-    for (let dy = -1; dy <= 1; dy++) {
-      for (let dx = -1; dx <= 1; dx++) {
-        const key = `${ix + dx},${iy + dy}`;
-        const bucket = spatialHashRef.current.get(key);
-        if (!bucket) continue;
-        bucket.forEach((b) => {
-          if (b.status === 'flying') result.push(b);
-        });
-      }
-    }
-    return result;
-  }, []);
-
-  const drawBatCursor = useCallback((ctx: CanvasRenderingContext2D, cursor: CursorState) => {
-    const sprite = spriteSheetsRef.current.player;
-    if (!sprite || !sprite.loaded) return;
-
-    ctx.save();
-    
-    // Bat is pixel-art; disable smoothing for crisp edges
-    ctx.imageSmoothingEnabled = false;
-
-    // Use computed frame width from the loaded image to avoid sampling two frames
-    const frameX = cursorAnimRef.current.isHitting ? cursorAnimRef.current.hitFrame * sprite.frameWidth : 0;
-    const renderWidth = getScaledSize(48);
-    const renderHeight = getScaledSize(180);
-    
-    // Use ref-based high-frequency cursor position
-    const pos = cursorPosRef.current;
-    const drawX = Math.round(pos.x - renderWidth / 2);
-    const drawY = Math.round(pos.y - renderHeight / 2);
-    
-    ctx.drawImage(
-      sprite.image,
-      frameX, 0, sprite.frameWidth, sprite.frameHeight,
-      drawX, drawY, renderWidth, renderHeight
-    );
-    
-    ctx.restore();
-  }, [getScaledSize]);
-
-  const drawFloatingPoint = useCallback((ctx: CanvasRenderingContext2D, point: {
-    id: string;
-    points: number;
-    x: number;
-    y: number;
-    opacity: number;
-  }) => {
-    ctx.save();
-    ctx.globalAlpha = point.opacity;
-    ctx.fillStyle = '#facc15'; // yellow-400
-    ctx.strokeStyle = 'rgba(0, 0, 0, 0.8)';
-    ctx.lineWidth = 2;
-    ctx.font = '18px "Press Start 2P", monospace';
-    ctx.textAlign = 'center';
-    ctx.textBaseline = 'middle';
-    
-    const text = `+${point.points}`;
-    ctx.strokeText(text, point.x, point.y);
-    ctx.fillText(text, point.x, point.y);
-    ctx.restore();
-  }, []);
-
-  // Main game loop
-  const gameLoop = useCallback(() => {
-    if (!canvasRef.current || !ctxRef.current) return;
-    const now = performance.now();
-    const dt = lastFrameTimeRef.current ? (now - lastFrameTimeRef.current) / 1000 : 0;
-    lastFrameTimeRef.current = now;
-    
-    const canvas = canvasRef.current;
-    const ctx = ctxRef.current;
-    
-    // Clear canvas
-    ctx.clearRect(0, 0, canvas.width, canvas.height);
-    
-    // Always draw background
-    drawBackground(ctx, canvas);
-    
-    // Update sim and draw only when running
-    if (gameStarted && !gameOver) {
-      // Advance hit animation at ~10 FPS using timer in ref
-      if (cursorAnimRef.current.isHitting) {
-        cursorAnimRef.current.hitTimer += dt;
-        const newFrame = Math.floor(cursorAnimRef.current.hitTimer * 10);
-        if (newFrame >= 2) {
-          cursorAnimRef.current.isHitting = false;
-          cursorAnimRef.current.hitFrame = 0;
-          cursorAnimRef.current.hitTimer = 0;
-        } else if (newFrame !== cursorAnimRef.current.hitFrame) {
-          cursorAnimRef.current.hitFrame = newFrame;
-        }
-      }
-
-      // --- Simulation step (merged moveBirds) ---
-      if (gameContainerRef.current) {
-        const { clientWidth: width, clientHeight: height } = gameContainerRef.current;
-        const hitRadius = getScaledSize(32);
-        const cellSize = Math.max(1, hitRadius * 2);
-
-        for (let i = 0; i < birdsRef.current.length; ) {
-          const bird = birdsRef.current[i];
-
-          if (bird.status === 'hit') {
-            const gravity = 0.1;
-            bird.velocityY = bird.velocityY + gravity;
-            bird.y = bird.y + bird.velocityY;
-            spatialUpdateIfMoved(bird, cellSize);
-            if (bird.y <= height + 100) {
-              i++;
-            } else {
-              spatialRemove(bird);
-              bird.active = false;
-              birdPoolRef.current.push(bird);
-              const last = birdsRef.current.pop()!;
-              if (i < birdsRef.current.length) {
-                birdsRef.current[i] = last;
-              }
-            }
-          } else {
-            let newX = bird.x + bird.velocityX;
-            let newY = bird.y + bird.velocityY;
-            if (bird.bird.name === 'Butterfly') {
-              const waveFrequency = 0.03;
-              const waveAmplitude = 1.2;
-              newY = bird.initialY + bird.velocityY * (bird.x / bird.velocityX) + Math.sin(bird.x * waveFrequency) * waveAmplitude * 20;
-            } else if (bird.bird.name === 'Bee') {
-              newX += (Math.random() - 0.5) * 3;
-            }
-
-            if (newX >= -150 && newX <= width + 150 && newY >= -150 && newY <= height + 150) {
-              bird.x = newX;
-              bird.y = newY;
-              spatialUpdateIfMoved(bird, cellSize);
-              i++;
-            } else {
-              spatialRemove(bird);
-              bird.active = false;
-              birdPoolRef.current.push(bird);
-              const last = birdsRef.current.pop()!;
-              if (i < birdsRef.current.length) {
-                birdsRef.current[i] = last;
-              }
-            }
-          }
-        }
-      }
-
-      // Draw all birds after update
-      birdsRef.current.forEach(bird => drawBird(ctx, bird));
+  // Simulation, spawning and rendering are driven by the shared engine
+  const engine = useGameEngine({
+    containerRef: gameContainerRef,
+    canvasRef,
+    running: gameStarted && !gameOver,
+    paused,
+    // Practice holds the preset's starting values until the panel changes them
+    difficulty: practice ? tunedDifficulty(difficulty, presetTuning(difficulty)) : difficulty,
+    endless: endless || practice,
+    waveRamp: !practice,
+    seed,
+    roundDuration,
+    insects: levelSpawns?.insects,
+    script: levelSpawns?.script,
+    background: level?.background,
+    handCursors: handModeEnabled && !calibrating ? handFilters.slice(0, HAND_LAYOUTS[layout].hands) : [],
+  });
 
-      // Floating points: fast rise and short lifetime so they don't stretch too far
-      if (floatingPointsRef.current.length > 0) {
-        for (let i = 0; i < floatingPointsRef.current.length; i++) {
-          const p = floatingPointsRef.current[i];
-          p.y -= 350 * dt; // fast rise (~350px/sec)
-          p.opacity -= 1.6 * dt; // quick fade (~0.6s)
-        }
-        floatingPointsRef.current = floatingPointsRef.current.filter(p => p.opacity > 0);
-        for (let i = 0; i < floatingPointsRef.current.length; i++) {
-          drawFloatingPoint(ctx, floatingPointsRef.current[i]);
-        }
-      }
-    }
-    
-    // Always draw bat cursor from ref-driven anim
-    drawBatCursor(ctx, cursor);
-    
-    gameLoopRef.current = requestAnimationFrame(gameLoop);
-  }, [gameStarted, gameOver, drawBackground, drawBird, drawFloatingPoint, drawBatCursor, getScaledSize, spatialRemove, spatialUpdateIfMoved]);
-
-  const birdTypes: BirdType[] = [
-    { name: "Bee", image: "/animals/bee.gif", points: 1, rarity: 'common', spawnRate: 15 },
-    { name: "Butterfly", image: "/animals/butterfly.gif", points: 2, rarity: 'uncommon', spawnRate: 10 },
-    { name: "Blue Mouch", image: "/animals/bluemouch.gif", points: 5, rarity: 'rare', spawnRate: 5 },
-    { name: "Mouch", image: "/animals/mouch.gif", points: 10, rarity: 'legendary', spawnRate: 2 },
-  ];
+  useEffect(() => {
+    engine.setBats(batColors(layout));
+  }, [engine, layout]);
+
+  // Seconds actually played, including any extra time
+  const stats = swingStats(swingHistory, engine.time);
+  // Campaign objective progress and stars, judged on the same history as the score
+  const levelStats: LevelStats = {
+    score,
+    catches: hitHistory.reduce<Record<string, number>>((counts, hit) => {
+      const id = getInsect(hit.birdType)?.id;
+      if (id) counts[id] = (counts[id] ?? 0) + 1;
+      return counts;
+    }, {}),
+    friendlyHits: hitHistory.length - hits,
+    misses: stats.misses,
+  };
+  const stars = level ? levelStars(level, levelStats) : 0;
 
   const formatTime = (totalSeconds: number) => {
     const minutes = Math.floor(totalSeconds / 60);
@@ -508,164 +162,58 @@ const GameScreen = ({ onBackToMenu }: GameScreenProps) => {
     return `${minutes.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
   };
 
-  const getRandomBird = (): BirdType => {
-    const random = Math.random();
-    if (random < 0.6) return birdTypes[0];
-    else if (random < 0.85) return birdTypes[1];
-    else if (random < 0.95) return birdTypes[2];
-    else return birdTypes[3];
-  };
-
-  const createBird = useCallback((flockOptions?: { side: number; y: number }) => {
-    if (gameOver || !gameStarted || !gameContainerRef.current) return;
-
-    const container = gameContainerRef.current;
-    const width = container.clientWidth;
-    const height = container.clientHeight;
-    
-    // Responsive spawn distance based on container size, but capped to prevent going outside
-    const spawnDistance = Math.min(getScaledSize(100), Math.min(width, height) * 0.2);
-    
-    let x = 0, y = 0, targetX = 0, targetY = 0;
-    const side = flockOptions?.side ?? Math.floor(Math.random() * 4); 
-
-    switch (side) {
-      case 0: // Left
-        x = -spawnDistance; 
-        y = Math.max(spawnDistance, Math.min(height - spawnDistance, flockOptions?.y ?? Math.random() * height));
-        targetX = width + spawnDistance; 
-        targetY = Math.max(spawnDistance, Math.min(height - spawnDistance, Math.random() * height));
-        break;
-      case 1: // Right
-        x = width + spawnDistance; 
-        y = Math.max(spawnDistance, Math.min(height - spawnDistance, flockOptions?.y ?? Math.random() * height));
-        targetX = -spawnDistance; 
-        targetY = Math.max(spawnDistance, Math.min(height - spawnDistance, Math.random() * height));
-        break;
-      case 2: // Top
-        x = Math.max(spawnDistance, Math.min(width - spawnDistance, Math.random() * width)); 
-        y = -spawnDistance;
-        targetX = Math.max(spawnDistance, Math.min(width - spawnDistance, Math.random() * width)); 
-        targetY = height + spawnDistance;
-        break;
-      case 3: // Bottom
-        x = Math.max(spawnDistance, Math.min(width - spawnDistance, Math.random() * width)); 
-        y = height + spawnDistance;
-        targetX = Math.max(spawnDistance, Math.min(width - spawnDistance, Math.random() * width)); 
-        targetY = -spawnDistance;
-        break;
-    }
-
-    const birdType = getRandomBird();
-    const dx = targetX - x;
-    const dy = targetY - y;
-    const distance = Math.sqrt(dx * dx + dy * dy);
-
-    const timeProgress = 1 - (seconds / 60);
-    const baseSpeed = 1.5 + (timeProgress * 1.5);
-    const speed = baseSpeed + Math.random() * 1.0;
-
-    const velocityX = (dx / distance) * speed;
-    const velocityY = (dy / distance) * speed;
-
-    // Reuse from pool if available, else create new instance
-    const pooled = birdPoolRef.current.pop();
-    const instance: BirdPosition = pooled ?? {
-      id: '',
-      bird: birdType,
-      x: 0,
-      y: 0,
-      velocityX: 0,
-      velocityY: 0,
-      direction: 'left',
-      initialY: 0,
-      status: 'flying',
-      animation: { currentFrame: 0, lastFrameTime: Date.now() },
-      active: false,
-      cellKey: undefined,
-    };
-
-    // Reset fields (no gameplay change)
-    instance.id = Math.random().toString(36).substring(7);
-    instance.bird = birdType;
-    instance.x = x;
-    instance.y = y;
-    instance.velocityX = velocityX;
-    instance.velocityY = velocityY;
-    instance.direction = velocityX > 0 ? 'right' : 'left';
-    instance.initialY = y;
-    instance.status = 'flying';
-    instance.animation.currentFrame = 0;
-    instance.animation.lastFrameTime = Date.now();
-    instance.active = true;
-    instance.cellKey = undefined;
-
-    birdsRef.current.push(instance);
-
-    // Insert into spatial grid using current hit cell size (updated radius)
-    const hitRadius = getScaledSize(32);
-    spatialInsert(instance, Math.max(1, hitRadius * 2));
-  }, [gameOver, gameStarted, seconds, getScaledSize, spatialInsert]);
-
-
-  const createFlock = useCallback(() => {
-    if (gameOver || !gameStarted || !gameContainerRef.current) return;
-    const container = gameContainerRef.current;
-    const height = container.clientHeight;
-
-    const flockSize = 3 + Math.floor(Math.random() * 3);
-    const flockStartY = Math.random() * (height - 150) + 75;
-    const side = Math.floor(Math.random() * 2);
-
-    for (let i = 0; i < flockSize; i++) {
-      const yOffset = flockStartY + (Math.random() - 0.5) * 150;
-      setTimeout(() => createBird({ side, y: yOffset }), i * (100 + Math.random() * 50));
-    }
-  }, [createBird, gameOver, gameStarted]);
-
-  const catchBird = useCallback(async (birdId: string) => {
-    const bird = birdsRef.current.find(b => b.id === birdId);
-    if (bird && bird.status === 'flying') {
+  const catchBird = useCallback(async (birdId: string, multiplier = 1, player = 0) => {
+    const target = engine.birds.find(b => b.id === birdId);
+    const points = target ? Math.round(target.bird.points * multiplier) : 0;
+    // The engine knocks the bird down and spawns its floating points
+    const bird = engine.catchBird(birdId, points, multiplier);
+    if (bird) {
       // Only track individual hit, totals calculated automatically
       setHitHistory(prev => [
         ...prev,
         {
           birdType: bird.bird.name,
-          points: bird.bird.points,
-          timestamp: Date.now()
+          points,
+          multiplier,
+          timestamp: Date.now(),
+          player,
         }
       ]);
       
-      // Add floating points animation
-      const newFloatingPoint = {
-        id: Math.random().toString(36).substring(7),
-        points: bird.bird.points,
-        x: bird.x,
-        y: bird.y,
-        opacity: 1
-      };
-      floatingPointsRef.current = [...floatingPointsRef.current, newFloatingPoint];
-      
-      if (dieAudioRef.current) {
-        dieAudioRef.current.currentTime = 0;
-        dieAudioRef.current.play();
+      const dieAudio = dieAudioRef.current;
+      if (dieAudio) {
+        // Each insect names its own hit sound in the catalog
+        if (dieAudio.getAttribute('src') !== bird.bird.sounds.hit) dieAudio.src = bird.bird.sounds.hit;
+        dieAudio.currentTime = 0;
+        dieAudio.play();
       }
       if (gunAudioRef.current) {
         gunAudioRef.current.currentTime = 0;
         gunAudioRef.current.play();
       }
-      
-      // Mutate in place to avoid array churn
-      bird.status = 'hit';
-      bird.velocityX = 0;
-      bird.velocityY = 2;
 
-      // Record hit on blockchain if wallet is connected
-      if (address) {
+
+      // Power-ups take effect straight away; extra time goes on the clock (an extra life when endless)
+      const powerUp = bird.bird.powerUp;
+      if (powerUp?.effect === 'extraTime') {
+        if (endless) setBonusLives(prev => prev + 1);
+        else if (!practice) engine.extendRound(powerUp.duration);
+      } else if (powerUp && handModeEnabled && !heldPowerUp) {
+        setHeldPowerUp(bird.bird);
+      } else if (powerUp) {
+        engine.activateEffect(powerUp.effect, powerUp.duration);
+      }
+      // Friendly insects may also cost time, though never the last second of the round
+      const timePenalty = bird.bird.timePenalty;
+      if (timePenalty && !endless && !practice) engine.extendRound(-timePenalty);
+
+      // Record hit on blockchain if wallet is connected (power-ups score nothing, the relayer can't subtract a
+      // penalty, and practice and the second player are never recorded)
+      if (address && !powerUp && points > 0 && !practice && player === 0) {
         try {
           const hitData: HitData = {
             player: address,
-            points: bird.bird.points
+            points
           };
           // Record hit immediately for better reliability
           const result = await hitService.recordHitImmediate(hitData);
@@ -711,29 +259,32 @@ const GameScreen = ({ onBackToMenu }: GameScreenProps) => {
         }
       }
     }
-  }, [address, toast]);
-
-  // Removed separate moveBirds RAF; movement is handled inside the unified gameLoop
-
-  
+  }, [address, endless, practice, handModeEnabled, heldPowerUp, engine, toast]);
 
   const resetGame = () => {
-    setSeconds(60);
-    // No birds state to reset; refs are reset in playAgain
+    setSeconds(startSeconds);
+    setEscapes(0);
+    setBonusLives(0);
+    setWave(1);
+    setHeldPowerUp(null);
+    // No birds state to reset; the engine is reset in playAgain
     setGameOver(false);
-    setGameStarted(false);
+    setGameStarted(practice);
     setCountdown(3);
+    setPaused(false);
+    setResumeIn(0);
     setHitHistory([]); // Reset hit history
+    comboRefs.current.forEach(tracker => tracker.reset());
+    setCombos(PLAYER_COLORS.map(() => NO_COMBO));
+    setSwingHistory([]);
   };
 
   const playAgain = () => {
-    // Fully reset refs that drive the RAF rendering pipeline
-    birdsRef.current = [];
-    birdPoolRef.current = [];
-    spatialHashRef.current.clear();
-    floatingPointsRef.current = [];
-    cursorAnimRef.current = { isHitting: false, hitFrame: 0, hitTimer: 0 };
-    cursorPosRef.current = { x: 0, y: 0 };
+    // Fully reset the world that drives the RAF rendering pipeline; the daily replays its own field
+    engine.reset(seed);
+    // The ranked daily run has just been used up
+    if (dailyRanked) setDailyRanked(false);
+    setDailyAttemptId(null);
     resetGame();
   };
 
@@ -742,65 +293,57 @@ const GameScreen = ({ onBackToMenu }: GameScreenProps) => {
     if (handModeEnabled) return; // mouse disabled when hand mode controls the bat
     if (!gameContainerRef.current) return;
     const rect = gameContainerRef.current.getBoundingClientRect();
-    const x = e.clientX - rect.left;
-    const y = e.clientY - rect.top;
+    const { x, y } = engine.toWorld(e.clientX - rect.left, e.clientY - rect.top);
     // Single source of truth for both render and collisions in mouse mode too
-    cursorPosRef.current = { x, y };
-  }, [handModeEnabled]);
-
-  // Direct hand position update (no RAF loop, no smoothing)
-  const updateHandPosition = useCallback((palmPos: { x: number; y: number }) => {
-    if (!handModeEnabled || !gameContainerRef.current) return;
-    
-    const rect = gameContainerRef.current.getBoundingClientRect();
-    const targetX = palmPos.x * rect.width;
-    const targetY = palmPos.y * rect.height;
-    
-    // Single source of truth for both render and collisions
-    cursorPosRef.current = { x: targetX, y: targetY };
-    currentHandPosRef.current = { x: targetX, y: targetY };
-  }, [handModeEnabled]);
-
-  // Cursor hit animation is now simulated inside the unified RAF using cursorAnimRef
-
-  // Floating points are animated in the unified RAF; no React interval/state needed
+    engine.setCursor(x, y);
+  }, [engine, handModeEnabled]);
+
+  // Catch everything under the bat; a swing that catches nothing breaks its player's combo
+  const swingAt = useCallback((x: number, y: number, player = 0) => {
+    if (!gameStarted || gameOver || paused) return;
+    const caught = engine.findHits(x, y);
+    const fouls = caught.filter(bird => isPenalty(bird.bird)).length;
+    const catches = caught.length - fouls;
+    setSwingHistory(prev => [...prev, { x, y, catches, timestamp: Date.now() }]);
+    const doubled = engine.isEffectActive('doublePoints') ? 2 : 1;
+    const tracker = comboRefs.current[player];
+    const multiplier = tracker.swing(Date.now(), catches, fouls) * doubled;
+    setCombos(prev => prev.map((combo, i) => (i === player ? { streak: tracker.streak, multiplier: tracker.multiplier } : combo)));
+    // Penalties are never multiplied
+    caught.forEach(bird => catchBird(bird.id, isPenalty(bird.bird) ? 1 : multiplier, player));
+  }, [catchBird, engine, gameStarted, gameOver, paused]);
+
+  // Clear a player's HUD combo once their streak window runs out
+  useEffect(() => {
+    const timeouts = comboRefs.current.map((tracker, player) => {
+      const expiresAt = tracker.expiresAt;
+      if (expiresAt === null || combos[player].streak === 0) return undefined;
+      return setTimeout(() => setCombos(prev => prev.map((combo, i) => (i === player ? NO_COMBO : combo))), expiresAt - Date.now());
+    });
+    return () => timeouts.forEach(timeout => clearTimeout(timeout));
+  }, [combos]);
 
   // Handle mouse click for bat hitting animation
   const handleGameAreaClick = useCallback((e: React.MouseEvent) => {
+    if (paused) return;
     if (gunAudioRef.current) {
       gunAudioRef.current.currentTime = 0;
       gunAudioRef.current.play();
     }
     
     // Start hit animation
-    cursorAnimRef.current.isHitting = true;
-    cursorAnimRef.current.hitFrame = 0;
-    cursorAnimRef.current.hitTimer = 0;
+    engine.triggerSwing();
 
     // Check for collision with birds at click position using responsive hit radius
     if (gameContainerRef.current) {
       const rect = gameContainerRef.current.getBoundingClientRect();
-      const clickX = e.clientX - rect.left;
-      const clickY = e.clientY - rect.top;
-      
-      // Use responsive hit radius based on container size (increased)
-      const hitRadius = getScaledSize(32);
-      const r2 = hitRadius * hitRadius;
-
-      // Query only nearby birds via spatial hash
-      const candidates = queryNearbyBirds(clickX, clickY, hitRadius);
-      for (let i = 0; i < candidates.length; i++) {
-        const bird = candidates[i];
-        const dx = clickX - bird.x;
-        const dy = clickY - bird.y;
-        if (dx * dx + dy * dy < r2) {
-          catchBird(bird.id);
-        }
-      }
+      const click = engine.toWorld(e.clientX - rect.left, e.clientY - rect.top);
+      swingAt(click.x, click.y);
     }
-  }, [catchBird, getScaledSize, queryNearbyBirds]);
+  }, [swingAt, engine, paused]);
 
   useEffect(() => {
+    if (practice || calibrating) return;
     // Play countdown audio immediately when countdown starts
     if (countdown === 3 && countdownAudioRef.current) {
       countdownAudioRef.current.currentTime = 0;
@@ -822,37 +365,125 @@ const GameScreen = ({ onBackToMenu }: GameScreenProps) => {
     }, 1000);
 
     return () => clearInterval(countdownTimer);
-  }, [countdown]);
+  }, [countdown, practice, calibrating]);
 
+  // The clock is read off the engine's simulated time, which stands still while paused,
+  // so pausing can neither lose nor gain the round any time
   useEffect(() => {
-    if (!gameStarted || gameOver) return;
+    if (!gameStarted || gameOver || practice) return;
     intervalRef.current = setInterval(() => {
-      setSeconds(prev => {
-        if (prev <= 1) {
-          setGameOver(true);
-          return 0;
-        }
-        return prev - 1;
-      });
-    }, 1000);
+      if (endless) {
+        setSeconds(Math.floor(engine.time));
+        return;
+      }
+      const left = engine.timeLeft;
+      setSeconds(Math.ceil(left));
+      if (left <= 0) setGameOver(true);
+    }, CLOCK_POLL_MS);
     return () => {
       if (intervalRef.current) clearInterval(intervalRef.current);
     };
+  }, [gameStarted, gameOver, endless, practice, engine]);
+
+  const pauseGame = useCallback(() => {
+    if (!gameStarted || gameOver) return;
+    setPaused(true);
+    setResumeIn(0);
   }, [gameStarted, gameOver]);
 
+  const resumeGame = () => setResumeIn(RESUME_COUNTDOWN);
+
+  const startCalibration = () => {
+    pauseGame();
+    setCalibrationPalm(null);
+    setCalibrating(true);
+  };
+
+  const spendHeldPowerUp = () => {
+    if (!heldPowerUp?.powerUp) return;
+    engine.activateEffect(heldPowerUp.powerUp.effect, heldPowerUp.powerUp.duration);
+    setHeldPowerUp(null);
+  };
+
+  // Hand mode asks for a calibration the first time it is used on this device
+  const toggleHandMode = () => {
+    if (!handModeEnabled && !reach) startCalibration();
+    if (handModeEnabled) {
+      setCalibrating(false);
+      // Without a hand there's no fist to use a held power-up with
+      spendHeldPowerUp();
+    }
+    setHandModeEnabled(prev => !prev);
+  };
+
+  // Pinches and swats swing the bat of the hand that made them
+  const handSwing = (bat: number) => {
+    if (!gameStarted || gameOver || paused) return;
+    engine.triggerSwing(bat);
+    if (gunAudioRef.current) {
+      gunAudioRef.current.currentTime = 0;
+      gunAudioRef.current.play();
+    }
+    const { x, y } = engine.bats[bat] ?? engine.cursor;
+    swingAt(x, y, playerForBat(layout, bat));
+  };
+
+  // A pinch or swat hits, an open palm pauses and a fist uses the held power-up
+  const handleGesture = (gesture: GestureEvent, handedness: Handedness) => {
+    if (gesture.type === 'pinch' || gesture.type === 'swat') handSwing(batForHand(layout, handedness, gesture.x));
+    else if (gesture.type === 'openPalm') pauseGame();
+    else if (gesture.type === 'fist' && gameStarted && !gameOver && !paused) spendHeldPowerUp();
+  };
+
+  // Count down before the world starts moving again
   useEffect(() => {
-    if (!gameStarted || gameOver) return;
-    const spawnLoop = () => {
-      const spawnDelay = 250 + (seconds / 60) * 600;
-      if (Math.random() < 0.15) createFlock();
-      else createBird();
-      spawnTimeoutRef.current = setTimeout(spawnLoop, spawnDelay);
+    if (resumeIn === 0) return;
+    const timer = setTimeout(() => {
+      if (resumeIn === 1) setPaused(false);
+      setResumeIn(resumeIn - 1);
+    }, 1000);
+    return () => clearTimeout(timer);
+  }, [resumeIn]);
+
+  // Esc toggles the pause; leaving the tab pauses
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key !== 'Escape' || calibrating) return;
+      if (paused && resumeIn === 0) setResumeIn(RESUME_COUNTDOWN);
+      else pauseGame();
     };
-    spawnLoop();
+    const handleVisibilityChange = () => {
+      if (document.hidden) pauseGame();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
     return () => {
-      if (spawnTimeoutRef.current) clearTimeout(spawnTimeoutRef.current);
+      window.removeEventListener('keydown', handleKeyDown);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
     };
-  }, [gameStarted, gameOver, seconds, createBird, createFlock]);
+  }, [pauseGame, paused, resumeIn, calibrating]);
+
+  // The music holds its place while paused
+  useEffect(() => {
+    const music = bgMusicRef.current;
+    if (!music || !gameStarted || gameOver) return;
+    if (paused) music.pause();
+    else music.play();
+  }, [paused, gameStarted, gameOver]);
+
+  // Endless: follow escapes and the wave from the engine
+  useEffect(() => {
+    if (!endless || !gameStarted || gameOver) return;
+    const interval = setInterval(() => {
+      setEscapes(engine.escapes);
+      setWave(engine.wave);
+    }, 100);
+    return () => clearInterval(interval);
+  }, [endless, engine, gameStarted, gameOver]);
+
+  useEffect(() => {
+    if (endless && gameStarted && lives === 0) setGameOver(true);
+  }, [endless, gameStarted, lives]);
 
   useEffect(() => {
     if (gameStarted && !gameOver) {
@@ -878,75 +509,72 @@ const GameScreen = ({ onBackToMenu }: GameScreenProps) => {
   }, [gameOver]);
 
   useEffect(() => {
-    if (gameOver && hitHistory.length > 0 && address) {
+    if (gameOver && level) onLevelComplete?.(level.id, stars);
+  }, [gameOver, level, stars, onLevelComplete]);
+
+  useEffect(() => {
+    if (!daily || !address) {
+      setDailyRanked(null);
+      return;
+    }
+    let cancelled = false;
+    hasDailyAttempt(dailyDate, address)
+      .then(played => {
+        if (!cancelled) setDailyRanked(!played);
+      })
+      .catch((err) => {
+        console.error("❌ Failed to check today's daily attempt:", err);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [daily, dailyDate, address]);
+
+  // Claim the ranked run as it starts, so leaving mid-run still uses it up; if the
+  // server says today's run is already taken, this one is practice
+  useEffect(() => {
+    if (!gameStarted || !dailyRanked || dailyAttemptId !== null || !address) return;
+    let cancelled = false;
+    startDailyAttempt(dailyDate, address)
+      .then(attemptId => {
+        if (cancelled) return;
+        setDailyAttemptId(attemptId);
+        if (attemptId === null) setDailyRanked(false);
+      })
+      .catch((err) => {
+        console.error("❌ Failed to start today's daily attempt:", err);
+        if (!cancelled) setDailyRanked(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [gameStarted, dailyRanked, dailyAttemptId, dailyDate, address]);
+
+  useEffect(() => {
+    if (gameOver && !practice && !sharedRound && (hitHistory.length > 0 || swingHistory.length > 0) && address) {
       saveGameData({
-        sessionType: 'single',
+        sessionType: mode === 'round' ? 'single' : mode,
         hostAddress: address,
         score,
         hits,
         hitHistory,
-        durationSec: 60 - seconds,
+        swingHistory,
+        durationSec: Math.round(engine.time),
+        difficulty: difficulty.id,
+        survivalSec: endless ? Math.round(engine.time) : null,
+        waveReached: endless ? wave : null,
+        seed: daily ? seed : null,
+        dailyDate: daily && dailyAttemptId !== null ? dailyDate : null,
+        dailyAttemptId,
+        // A shared level's id is whatever its link says, so only campaign results carry one
+        levelId: mode === 'campaign' ? level?.id ?? null : null,
       }).then(() => {
         console.log("✅ Single player game data saved to Supabase!");
       }).catch((err) => {
         console.error("❌ Failed to save single player game data:", err);
       });
     }
-  }, [gameOver, hitHistory, address, score, hits, seconds]);
-
-  // Initialize canvas and sprites (re-run after gameOver toggles so canvas re-mounts)
-  useEffect(() => {
-    if (!canvasRef.current) return;
-    
-    const canvas = canvasRef.current;
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
-    
-    ctxRef.current = ctx;
-    
-    // Set canvas size to match container
-    const resizeCanvas = () => {
-      if (!gameContainerRef.current) return;
-      const rect = gameContainerRef.current.getBoundingClientRect();
-      const dpr = Math.max(1, window.devicePixelRatio || 1);
-      // Set the internal buffer size in device pixels for crisp rendering
-      canvas.width = Math.floor(rect.width * dpr);
-      canvas.height = Math.floor(rect.height * dpr);
-      // Keep CSS size in CSS pixels
-      canvas.style.width = `${rect.width}px`;
-      canvas.style.height = `${rect.height}px`;
-      // Scale drawing operations so existing game coordinates continue in CSS pixels
-      ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
-      
-      // Prefer high quality for non-pixel-art birds; bat will override per-draw
-      ctx.imageSmoothingEnabled = true;
-      ctx.imageSmoothingQuality = 'high';
-    };
-    
-    resizeCanvas();
-    window.addEventListener('resize', resizeCanvas);
-    
-    // Initialize sprites
-    initializeSpriteSheets();
-    
-    return () => {
-      window.removeEventListener('resize', resizeCanvas);
-    };
-  }, [initializeSpriteSheets, gameOver]);
-
-  // Start game loop - always running for consistent background
-  useEffect(() => {
-    if (!gameLoopRef.current) {
-      gameLoopRef.current = requestAnimationFrame(gameLoop);
-    }
-    
-    return () => {
-      if (gameLoopRef.current) {
-        cancelAnimationFrame(gameLoopRef.current);
-        gameLoopRef.current = null;
-      }
-    };
-  }, [gameLoop]);
+  }, [gameOver, hitHistory, swingHistory, address, score, hits, engine, difficulty, mode, practice, sharedRound, endless, wave, daily, seed, dailyDate, dailyAttemptId, level]);
 
   if (gameOver) {
     return (
@@ -957,7 +585,29 @@ const GameScreen = ({ onBackToMenu }: GameScreenProps) => {
         <audio ref={gameoverAudioRef} src="/audio/gameover.mp3" preload="auto" />
         <h1 className="text-4xl mb-8">Game Over!</h1>
         <div className="text-2xl mb-8">Final Score: {score}</div>
+        {(twoPlayer || sharedRound) && (
+          <div className="text-2xl mb-8">
+            {playerScores.map((playerScore, player) => (
+              <span key={player} className="mx-2" style={{ color: PLAYER_COLORS[player] }}>P{player + 1}: {playerScore}</span>
+            ))}
+            {layout === 'versus' && (
+              <div className="mt-4">
+                {playerScores[0] === playerScores[1] ? 'Draw!' : `P${playerScores[0] > playerScores[1] ? 1 : 2} wins!`}
+              </div>
+            )}
+          </div>
+        )}
+        {level && (
+          <div className="text-2xl mb-8">
+            {level.name}: <span className="text-yellow-500">{'★'.repeat(stars)}{'☆'.repeat(MAX_STARS - stars)}</span>
+            {stars === 0 && ' (objective failed)'}
+          </div>
+        )}
+        {daily && <div className="text-2xl mb-8">Daily Mouch {dailyDate} ({dailyRanked ? 'Ranked' : 'Practice'})</div>}
+        {endless && <div className="text-2xl mb-8">Survived: {formatTime(seconds)} | Wave: {wave}</div>}
         <div className="text-2xl mb-8">Total Hits: {hits}</div>
+        <div className="text-2xl mb-8">Accuracy: {formatAccuracy(stats)} ({stats.hits}/{stats.swings} swings)</div>
+        <div className="text-2xl mb-8">Swings/min: {stats.swingsPerMinute.toFixed(1)}</div>
         <div className="flex gap-4">
           <Button onClick={playAgain} className="bg-primary text-primary-foreground hover:opacity-90 font-press-start text-lg px-8 py-4">
             Play Again
@@ -975,20 +625,87 @@ const GameScreen = ({ onBackToMenu }: GameScreenProps) => {
     <div className="min-h-screen w-full bg-background text-foreground font-press-start flex flex-col items-center justify-start p-8 relative select-none">
       <div className="absolute left-0 top-0 w-full flex justify-between px-8 pt-6 z-20">
         <div className="flex flex-col items-start">
-          <div className="text-lg pointer-events-none">Time: {formatTime(seconds)}</div>
+          {practice ? (
+            <div className="text-lg pointer-events-none">Practice | Accuracy: {formatAccuracy(stats)}</div>
+          ) : (
+            <div className="text-lg pointer-events-none">Time: {formatTime(seconds)}{endless && ` | Wave: ${wave}`}</div>
+          )}
           <div className="text-lg pointer-events-none">Score: {score} | Hits: {hits}</div>
+          {twoPlayer && (
+            <div className="text-lg pointer-events-none">
+              {playerScores.map((playerScore, player) => (
+                <span key={player} className="mr-4" style={{ color: PLAYER_COLORS[player] }}>P{player + 1}: {playerScore}</span>
+              ))}
+            </div>
+          )}
+          {level && (
+            <div className="text-lg pointer-events-none">
+              {describeObjective(level.objective)}: {objectiveProgress(level.objective, levelStats)}
+            </div>
+          )}
+          {daily && (
+            <div className="text-lg pointer-events-none">Daily Mouch {dailyDate} ({dailyRanked ? 'Ranked' : 'Practice'})</div>
+          )}
+          {endless && <div className="text-lg text-red-500 pointer-events-none">Lives: {'♥'.repeat(lives)}</div>}
+          {combos.map((combo, player) => combo.streak > 1 && (
+            <div key={player} className="text-lg text-yellow-400 pointer-events-none">
+              {twoPlayer && `P${player + 1} `}Combo: {combo.streak} (x{combo.multiplier})
+            </div>
+          ))}
+          <PowerUpTimers engine={engine} running={gameStarted && !gameOver} />
+          {heldPowerUp?.powerUp && (
+            <div className="text-sm pointer-events-none" style={{ color: heldPowerUp.powerUp.color }}>
+              {heldPowerUp.powerUp.icon} {heldPowerUp.name} held: make a fist to use it
+            </div>
+          )}
         </div>
-        <div className="flex gap-2">
-          <Button
-            onClick={() => setHandModeEnabled((prev) => !prev)}
-            className={`${handModeEnabled ? "bg-green-600 hover:bg-green-700" : "bg-blue-600 hover:bg-blue-700"} text-white px-4 py-2 rounded`}
-            title={handModeEnabled ? "Disable Hand Mode" : "Enable Hand Mode"}
-          >
-            {handModeEnabled ? "Hand Mode: ON" : "Hand Mode: OFF"}
-          </Button>
-          <Button onClick={onBackToMenu} className="bg-red-500 text-white px-4 py-2 rounded hover:bg-red-600">
-            Leave Game
-          </Button>
+        <div className="flex flex-col items-end gap-2">
+          <div className="flex gap-2">
+            {gameStarted && (
+              <Button
+                onClick={paused ? resumeGame : pauseGame}
+                disabled={resumeIn > 0}
+                className="bg-yellow-500 text-white px-4 py-2 rounded hover:bg-yellow-600"
+              >
+                {paused ? "Resume" : "Pause"}
+              </Button>
+            )}
+            <Button
+              onClick={toggleHandMode}
+              className={`${handModeEnabled ? "bg-green-600 hover:bg-green-700" : "bg-blue-600 hover:bg-blue-700"} text-white px-4 py-2 rounded`}
+              title={handModeEnabled ? "Disable Hand Mode" : "Enable Hand Mode"}
+            >
+              {handModeEnabled ? "Hand Mode: ON" : "Hand Mode: OFF"}
+            </Button>
+            {handModeEnabled && (
+              <select
+                value={handLayout}
+                onChange={e => setHandLayout(e.target.value as HandLayout)}
+                disabled={gameStarted && !gameOver && !practice}
+                title="Hands and players; can't be changed during a round"
+                className="text-black rounded px-2 text-xs"
+              >
+                {Object.entries(HAND_LAYOUTS).map(([value, { label }]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+            )}
+            {handModeEnabled && (
+              <Button onClick={startCalibration} disabled={calibrating} className="bg-purple-600 text-white px-4 py-2 rounded hover:bg-purple-700">
+                Calibrate
+              </Button>
+            )}
+            {handModeEnabled && (
+              <Button onClick={() => setShowHandSettings(prev => !prev)} className="bg-purple-600 text-white px-4 py-2 rounded hover:bg-purple-700">
+                Hand Settings
+              </Button>
+            )}
+            <Button onClick={onBackToMenu} className="bg-red-500 text-white px-4 py-2 rounded hover:bg-red-600">
+              Leave Game
+            </Button>
+          </div>
+          {practice && <PracticePanel engine={engine} difficulty={difficulty} />}
+          {handModeEnabled && showHandSettings && <HandSettingsPanel settings={filterSettings} onChange={updateFilterSettings} />}
         </div>
       </div>
       <audio ref={dieAudioRef} src="/audio/die.mp3" preload="auto" />
@@ -1018,6 +735,33 @@ const GameScreen = ({ onBackToMenu }: GameScreenProps) => {
               <div className="text-6xl text-white font-bold">{countdown}</div>
             </div>
           )}
+
+          {calibrating && (
+            <HandCalibration
+              palm={calibrationPalm}
+              onSave={box => {
+                saveReach(box);
+                setCalibrating(false);
+              }}
+              onCancel={() => setCalibrating(false)}
+            />
+          )}
+
+          {paused && !calibrating && (
+            <div className="absolute inset-0 flex flex-col items-center justify-center gap-4 z-50 bg-black/40">
+              {resumeIn > 0 ? (
+                <div className="text-6xl text-white font-bold">{resumeIn}</div>
+              ) : (
+                <>
+                  <div className="text-4xl text-white font-bold">Paused</div>
+                  <Button onClick={resumeGame} className="bg-primary text-primary-foreground font-press-start">
+                    Resume
+                  </Button>
+                  <div className="text-xs text-white/80">Press Esc to resume</div>
+                </>
+              )}
+            </div>
+          )}
         </div>
       </div>
       {gameStarted && !gameOver && <Toaster />}
@@ -1027,52 +771,25 @@ const GameScreen = ({ onBackToMenu }: GameScreenProps) => {
         onEnter={() => console.log("Hand mode entered")}
         onExit={() => console.log("Hand mode exited")}
         onFingerMove={undefined}
-        onPinch={() => {
-          // Only process hits during active game
-          if (!gameStarted || gameOver) return;
-          
-          // Trigger hit animation
-          cursorAnimRef.current.isHitting = true;
-          cursorAnimRef.current.hitFrame = 0;
-          cursorAnimRef.current.hitTimer = 0;
-          if (gunAudioRef.current) {
-            gunAudioRef.current.currentTime = 0;
-            gunAudioRef.current.play();
+        onHandLost={pauseGame}
+        maxHands={HAND_LAYOUTS[layout].hands}
+        onGesture={handleGesture}
+        onHandsData={(hands) => {
+          if (!handModeEnabled) return;
+          if (calibrating) {
+            setCalibrationPalm(hands[0]?.palmCenter ?? null);
+            return;
           }
-          
-          // Use current real-time hand position for hit detection (same as mouse)
-          if (cursorPosRef.current) {
-            const hitRadius = getScaledSize(32);
-            const cx = cursorPosRef.current.x;
-            const cy = cursorPosRef.current.y;
-            const r2 = hitRadius * hitRadius;
 
-            const candidates = queryNearbyBirds(cx, cy, hitRadius);
-            for (let i = 0; i < candidates.length; i++) {
-              const bird = candidates[i];
-              const dx = cx - bird.x;
-              const dy = cy - bird.y;
-              if (dx * dx + dy * dy < r2) {
-                catchBird(bird.id);
-              }
-            }
+          // The engine loop draws each filtered bat between camera frames
+          const t = performance.now();
+          for (const hand of hands) {
+            if (!hand.palmCenter) continue;
+            const bat = batForHand(layout, hand.handedness, hand.palmCenter.x);
+            handFilters[bat].push({ t, ...mapToReach(reachForBat(layout, reach ?? FULL_FRAME, bat), hand.palmCenter) });
           }
         }}
-        onHandData={(data) => {
-          if (!handModeEnabled) return;
-          const source = data.palmCenter;
-          if (!source) return;
-
-          // Direct position update - no smoothing for maximum responsiveness
-          const nx = Math.max(0, Math.min(1, source.x));
-          const ny = Math.max(0, Math.min(1, source.y));
-          
-          // Update position immediately
-          updateHandPosition({ x: nx, y: ny });
-        }}
       />
-
-      {/* No calibration UI: simple palm control + pinch to hit */}
     </div>
   );
 };
@@ -1,47 +1,35 @@
 import { useState, useEffect, useRef, useCallback } from "react";
 import { Button } from "@/components/ui/button";
-import { BirdType } from "./InsectSelectScreen";
 import { useConnectedUsers, useStateTogether, useStateTogetherWithPerUserValues, useMyId, useJoinUrl, useLeaveSession, useFunctionTogether } from "react-together";
 import { useAccount } from "wagmi";
 import { Copy, Users } from "lucide-react";
 import { hitService, HitData } from "@/services/hitService";
 import { saveGameData } from "@/services/gameDataService";
 import { useToast } from "@/hooks/use-toast";
+import { useGameEngine } from "@/hooks/use-game-engine";
+import { randomSeed } from "@/game/random";
+import { ClaimArbiter, CLAIM_WINDOW_MS, claimKey } from "@/game/claims";
+import { ComboTracker } from "@/game/combo";
+import { formatAccuracy, swingStats } from "@/game/swingStats";
+import { WORLD_EFFECTS, WORLD_EFFECT_DELAY_TICKS } from "@/game/powerUps";
+import { getInsect, isPenalty } from "@/game/catalog";
+import { DEFAULT_DIFFICULTY, DifficultyId, getDifficulty } from "@/game/difficulty";
+import { BirdPosition, CatchClaim, SimulationTimeline, SwingRecord } from "@/game/types";
 import { ExternalLink } from "lucide-react";
 import { Toaster } from "@/components/ui/toaster";
 import HandTrackingView from "./HandTrackingView";
-
-interface SpriteData {
-  image: HTMLImageElement;
-  frameWidth: number;
-  frameHeight: number;
-  totalFrames: number;
-  rows: number;
-  columns: number;
-  duration: number;
-  loaded: boolean;
-}
+import HandCalibration from "./HandCalibration";
+import { useHandCalibration } from "@/hooks/use-hand-calibration";
+import { FULL_FRAME, mapToReach } from "@/lib/handCalibration";
+import { useCursorFilter } from "@/hooks/use-cursor-filter";
+import HandSettingsPanel from "./HandSettingsPanel";
+import PowerUpTimers from "./PowerUpTimers";
 
 interface GameScreenMultiplayerProps {
   onBackToMenu: () => void;
   isHost?: boolean;
   roomId?: string;
-}
-
-interface BirdPosition {
-  id: string;
-  bird: BirdType;
-  x: number;
-  y: number;
-  velocityX: number;
-  velocityY: number;
-  direction: 'left' | 'right';
-  initialY: number;
-  status: 'flying' | 'hit';
-  animation?: { currentFrame: number; lastFrameTime: number };
-  // Pooling + spatial hash internals
-  active?: boolean;
-  cellKey?: string;
+  difficulty?: DifficultyId;
 }
 
 type GameResults = {
@@ -58,7 +46,7 @@ function getRoomIdFromJoinUrl(joinUrl: string | null): string {
   return match ? decodeURIComponent(match[1]) : joinUrl;
 }
 
-const GameScreenMultiplayer = ({ onBackToMenu, isHost, roomId }: GameScreenMultiplayerProps) => {
+const GameScreenMultiplayer = ({ onBackToMenu, isHost, roomId, difficulty: hostDifficulty }: GameScreenMultiplayerProps) => {
   const myId = useMyId();
   const users = useConnectedUsers();
   const joinUrl = useJoinUrl();
@@ -81,7 +69,10 @@ const GameScreenMultiplayer = ({ onBackToMenu, isHost, roomId }: GameScreenMulti
   // Shared state for multi-game logic
   const [gameStarted, setGameStarted] = useStateTogether('gameStarted', false);
   const [countdown, setCountdown] = useStateTogether('countdown', 0);
-  const [seconds, setSeconds] = useStateTogether('seconds', 60);
+  // The host's difficulty applies to the whole room
+  const [difficultyId, setDifficultyId] = useStateTogether<DifficultyId>('difficulty', DEFAULT_DIFFICULTY);
+  const difficulty = getDifficulty(difficultyId);
+  const [seconds, setSeconds] = useStateTogether('seconds', difficulty.roundDuration);
   const [gameId, setGameId] = useStateTogether('gameId', 1);
   const [sessionLocked, setSessionLocked] = useStateTogether('sessionLocked', false);
   const [allowedUsers, setAllowedUsers] = useStateTogether<string[]>('allowedUsers', []);
@@ -92,6 +83,9 @@ const GameScreenMultiplayer = ({ onBackToMenu, isHost, roomId }: GameScreenMulti
   const [waitingTimer, setWaitingTimer] = useStateTogether('waitingTimer', 30);
   const [waitingReason, setWaitingReason] = useStateTogether('waitingReason', '');
   const [hostUserId, setHostUserId] = useStateTogether('hostUserId', '');
+  // Host-published seed and tick origin so every client simulates the same insects
+  const [timeline, setTimeline] = useStateTogether<SimulationTimeline | null>('simulationTimeline', null);
+  const currentTimeline = timeline && timeline.gameId === gameId ? timeline : null;
 
   // Set initial host
   useEffect(() => {
@@ -138,12 +132,18 @@ const GameScreenMultiplayer = ({ onBackToMenu, isHost, roomId }: GameScreenMulti
   // Per-user scores and hits
   const [myTotalScore, setMyTotalScore, allTotalScores] = useStateTogetherWithPerUserValues('totalScore', 0);
   const [myTotalHits, setMyTotalHits, allTotalHits] = useStateTogetherWithPerUserValues('totalHits', 0);
+  // Every swing this game, hits and misses, shared so the host can save everyone's
+  const [mySwingHistory, setMySwingHistory, allSwingHistories] = useStateTogetherWithPerUserValues<SwingRecord[]>('swingHistory', []);
   const [gameResults, setGameResults] = useStateTogether<GameResults>('gameResults', {});
   const [myHitHistory, setMyHitHistory] = useState<Array<{
     birdType: string;
     points: number;
+    multiplier: number;
     timestamp: number;
   }>>([]);
+  // This player's catch streak; the tracker scores swings, the state mirrors it for the HUD
+  const comboRef = useRef(new ComboTracker());
+  const [combo, setCombo] = useState({ streak: 0, multiplier: 1 });
 
   // Floating points animation state
   const [floatingPoints, setFloatingPoints] = useState<Array<{
@@ -158,47 +158,27 @@ const GameScreenMultiplayer = ({ onBackToMenu, isHost, roomId }: GameScreenMulti
   const [allHitHistories, setAllHitHistories] = useStateTogether('hitHistories', {} as Record<string, Array<{
     birdType: string;
     points: number;
+    multiplier: number;
     timestamp: number;
   }>>);
 
   // Calculate current totals from myHitHistory
   const myCurrentScore = myHitHistory.reduce((sum, hit) => sum + hit.points, 0);
-  const myCurrentHits = myHitHistory.length;
+  // Friendly insects swatted cost points but aren't hits
+  const myCurrentHits = myHitHistory.filter(hit => hit.points >= 0).length;
 
   // Session management for Supabase
   const [currentSessionId, setCurrentSessionId] = useState<string | null>(null);
   const [hasSavedGameData, setHasSavedGameData] = useState(false);
 
-  // Unified animation manager refs (multiplayer version)
-  const birdsRef = useRef<BirdPosition[]>([]);
-  const birdPoolRef = useRef<BirdPosition[]>([]);
-  const spatialHashRef = useRef<Map<string, Set<BirdPosition>>>(new Map());
-  const cursorPosRef = useRef<{ x: number; y: number }>({ x: 0, y: 0 });
-  const cursorAnimRef = useRef<{ isHitting: boolean; hitFrame: number; hitTimer: number }>({ isHitting: false, hitFrame: 0, hitTimer: 0 });
-  const floatingPointsRef = useRef<Array<{ id: string; points: number; x: number; y: number; opacity: number }>>([]);
-  const spriteSheetsRef = useRef<{[key: string]: SpriteData}>({});
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const ctxRef = useRef<CanvasRenderingContext2D | null>(null);
-  const backgroundImageRef = useRef<HTMLImageElement | null>(null);
-  const lastFrameTimeRef = useRef<number>(0);
-  const gameLoopRef = useRef<number | null>(null);
-  // No React state for birds; refs are the single source of truth
+  // No React state for birds; the shared engine is the single source of truth
   const [gameOver, setGameOver] = useState(false);
   const [isBeingKicked, setIsBeingKicked] = useState(false);
   const [showPlayerList, setShowPlayerList] = useState(false);
-  const [cursor, setCursor] = useState<{ x: number; y: number; isHitting: boolean; hitFrame: number; hitTimer: number }>({
-    x: 0,
-    y: 0,
-    isHitting: false,
-    hitFrame: 0,
-    hitTimer: 0
-  });
-  const batRef = useRef<HTMLDivElement | null>(null);
 
   const gameContainerRef = useRef<HTMLDivElement>(null);
   const intervalRef = useRef<NodeJS.Timeout>();
-  // Removed secondary RAF; single unified gameLoop handles update + render
-  const spawnTimeoutRef = useRef<NodeJS.Timeout>();
   const dieAudioRef = useRef<HTMLAudioElement | null>(null);
   const gunAudioRef = useRef<HTMLAudioElement | null>(null);
   const gameoverAudioRef = useRef<HTMLAudioElement | null>(null);
@@ -208,27 +188,35 @@ const GameScreenMultiplayer = ({ onBackToMenu, isHost, roomId }: GameScreenMulti
 
   // Hand mode state/refs
   const [handModeEnabled, setHandModeEnabled] = useState(false);
-  // Direct hand coords (no smoothing for better responsiveness)
-  const currentHandPosRef = useRef<{ x: number; y: number } | null>(null);
-
-  // Responsive scaling based on game container size
-  const getScaledSize = useCallback((baseSize: number) => {
-    if (!gameContainerRef.current) return baseSize;
-    const container = gameContainerRef.current;
-    const containerWidth = container.clientWidth;
-    const containerHeight = container.clientHeight;
-    
-    // Use the smaller dimension to maintain proportions
-    const scaleFactor = Math.min(containerWidth / 896, containerHeight / 504); // 896x504 is max-w-4xl aspect-[16/9]
-    return Math.max(baseSize * scaleFactor, baseSize * 0.5); // Minimum 50% of original size
-  }, []);
-
-  const birdTypes: BirdType[] = [
-    { name: "Bee", image: "/animals/bee.gif", points: 1, rarity: 'common', spawnRate: 15 },
-    { name: "Butterfly", image: "/animals/butterfly.gif", points: 2, rarity: 'uncommon', spawnRate: 10 },
-    { name: "Blue Mouch", image: "/animals/bluemouch.gif", points: 5, rarity: 'rare', spawnRate: 5 },
-    { name: "Mouch", image: "/animals/mouch.gif", points: 10, rarity: 'legendary', spawnRate: 2 },
-  ];
+  // Palm positions are smoothed and predicted before they move the bat
+  const { settings: filterSettings, updateSettings: updateFilterSettings, filters: handFilters } = useCursorFilter();
+  const [showHandSettings, setShowHandSettings] = useState(false);
+  // The player's reach box maps onto the field; shared rounds keep running while the wizard is open
+  const { reach, saveReach } = useHandCalibration();
+  const [calibrating, setCalibrating] = useState(false);
+  const [calibrationPalm, setCalibrationPalm] = useState<{ x: number; y: number } | null>(null);
+
+  const startCalibration = () => {
+    setCalibrationPalm(null);
+    setCalibrating(true);
+  };
+
+  // Hand mode asks for a calibration the first time it is used on this device
+  const toggleHandMode = () => {
+    if (!handModeEnabled && !reach) startCalibration();
+    if (handModeEnabled) setCalibrating(false);
+    setHandModeEnabled(prev => !prev);
+  };
+
+  // Simulation, spawning and rendering are driven by the shared engine,
+  // stepped in lockstep with the host's timeline once it is published
+  const engine = useGameEngine({
+    containerRef: gameContainerRef,
+    canvasRef,
+    running: gameStarted && !gameOver && !waitingForPlayers && !!currentTimeline,
+    timeline: currentTimeline,
+    handCursors: handModeEnabled && !calibrating ? handFilters.slice(0, 1) : [],
+  });
 
   const formatTime = (totalSeconds: number) => {
     const minutes = Math.floor(totalSeconds / 60);
@@ -236,425 +224,192 @@ const GameScreenMultiplayer = ({ onBackToMenu, isHost, roomId }: GameScreenMulti
     return `${minutes.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
   };
 
-  const getRandomBird = (): BirdType => {
-    const random = Math.random();
-    if (random < 0.6) return birdTypes[0];
-    else if (random < 0.85) return birdTypes[1];
-    else if (random < 0.95) return birdTypes[2];
-    else return birdTypes[3];
-  };
-
-  // --- Canvas sprites setup (align with single-player) ---
-  const initializeSpriteSheets = useCallback(() => {
-    const spriteSheets: Record<string, SpriteData> = {
-      bee: { frameWidth: 512, frameHeight: 512, totalFrames: 4, rows: 1, columns: 4, duration: 0.4, loaded: false, image: new Image() },
-      butterfly: { frameWidth: 512, frameHeight: 512, totalFrames: 2, rows: 1, columns: 2, duration: 0.2, loaded: false, image: new Image() },
-      bluemouch: { frameWidth: 360, frameHeight: 360, totalFrames: 150, rows: 30, columns: 5, duration: 4.5, loaded: false, image: new Image() },
-      mouch: { frameWidth: 320, frameHeight: 320, totalFrames: 126, rows: 26, columns: 5, duration: 5.04, loaded: false, image: new Image() },
-      player: { frameWidth: 48, frameHeight: 180, totalFrames: 2, rows: 1, columns: 2, duration: 0.2, loaded: false, image: new Image() },
-    } as any;
-
-    Object.keys(spriteSheets).forEach((key) => {
-      const sheet = spriteSheets[key];
-      const img = new Image();
-      img.onload = () => {
-        if (key === 'player') {
-          const derivedW = Math.floor(img.width / sheet.columns);
-          const derivedH = Math.floor(img.height / sheet.rows);
-          spriteSheetsRef.current[key] = { ...sheet, frameWidth: derivedW || sheet.frameWidth, frameHeight: derivedH || sheet.frameHeight, image: img, loaded: true };
-        } else {
-          spriteSheetsRef.current[key] = { ...sheet, image: img, loaded: true };
-        }
-      };
-      img.src = key === 'player' ? '/player.png' : `/spritesheet/${key}.png`;
-    });
-
-    // Background image
-    const bgImg = new Image();
-    bgImg.onload = () => { backgroundImageRef.current = bgImg; };
-    bgImg.src = '/background.jpg';
-  }, []);
-
-  const drawBackground = useCallback((ctx: CanvasRenderingContext2D, canvas: HTMLCanvasElement) => {
-    const gradient = ctx.createLinearGradient(0, 0, 0, canvas.height);
-    gradient.addColorStop(0, '#e0f2fe');
-    gradient.addColorStop(0.5, '#bfdbfe');
-    gradient.addColorStop(1, '#93c5fd');
-    ctx.fillStyle = gradient;
-    ctx.fillRect(0, 0, canvas.width, canvas.height);
-    if (backgroundImageRef.current) {
-      ctx.drawImage(backgroundImageRef.current, 0, 0, canvas.width, canvas.height);
-      const overlay = ctx.createLinearGradient(0, 0, 0, canvas.height);
-      overlay.addColorStop(0, 'rgba(186, 230, 253, 0.7)');
-      overlay.addColorStop(0.5, 'rgba(147, 197, 253, 0.6)');
-      overlay.addColorStop(1, 'rgba(147, 197, 253, 0.7)');
-      ctx.fillStyle = overlay;
-      ctx.fillRect(0, 0, canvas.width, canvas.height);
-    }
-  }, []);
-
-  const drawBird = useCallback((ctx: CanvasRenderingContext2D, bird: BirdPosition) => {
-    const key = bird.bird.name.toLowerCase().replace(' ', '');
-    const sprite = spriteSheetsRef.current[key];
-    if (!sprite || !sprite.loaded) return;
-    const now = Date.now();
-    const frameInterval = (sprite.duration * 1000) / sprite.totalFrames;
-    if (bird.animation && now - bird.animation.lastFrameTime >= frameInterval) {
-      bird.animation.currentFrame = (bird.animation.currentFrame + 1) % sprite.totalFrames;
-      bird.animation.lastFrameTime = now;
-    }
-    const currentFrame = bird.animation ? bird.animation.currentFrame : 0;
-    const frameCol = currentFrame % sprite.columns;
-    const frameRow = Math.floor(currentFrame / sprite.columns);
-    const sourceX = frameCol * sprite.frameWidth;
-    const sourceY = frameRow * sprite.frameHeight;
-    let renderSize = getScaledSize(80);
-    if (bird.bird.name === 'Bee') renderSize = Math.round(renderSize * 3.8);
-    ctx.save();
-    ctx.imageSmoothingEnabled = true;
-    ctx.imageSmoothingQuality = 'high';
-    ctx.translate(bird.x, bird.y);
-    if (bird.direction === 'right') ctx.scale(-1, 1);
-    if (bird.status === 'hit') { ctx.scale(1, -1); ctx.rotate(0.26); }
-    ctx.drawImage(sprite.image, sourceX, sourceY, sprite.frameWidth, sprite.frameHeight, -renderSize / 2, -renderSize / 2, renderSize, renderSize);
-    ctx.restore();
-  }, [getScaledSize]);
-
-  const drawBatCursor = useCallback((ctx: CanvasRenderingContext2D) => {
-    const sprite = spriteSheetsRef.current.player;
-    if (!sprite || !sprite.loaded) return;
-    ctx.save();
-    ctx.imageSmoothingEnabled = false;
-    const frameX = cursorAnimRef.current.isHitting ? cursorAnimRef.current.hitFrame * sprite.frameWidth : 0;
-    const renderWidth = getScaledSize(48);
-    const renderHeight = getScaledSize(180);
-    const pos = cursorPosRef.current;
-    const drawX = Math.round(pos.x - renderWidth / 2);
-    const drawY = Math.round(pos.y - renderHeight / 2);
-    ctx.drawImage(sprite.image, frameX, 0, sprite.frameWidth, sprite.frameHeight, drawX, drawY, renderWidth, renderHeight);
-    ctx.restore();
-  }, [getScaledSize]);
-
-  const drawFloatingPoint = useCallback((ctx: CanvasRenderingContext2D, point: { id: string; points: number; x: number; y: number; opacity: number }) => {
-    ctx.save();
-    ctx.globalAlpha = point.opacity;
-    ctx.fillStyle = '#facc15';
-    ctx.strokeStyle = 'rgba(0, 0, 0, 0.8)';
-    ctx.lineWidth = 2;
-    ctx.font = '18px "Press Start 2P", monospace';
-    ctx.textAlign = 'center';
-    ctx.textBaseline = 'middle';
-    const text = `+${point.points}`;
-    ctx.strokeText(text, point.x, point.y);
-    ctx.fillText(text, point.x, point.y);
-    ctx.restore();
-  }, []);
-
-  // --- Spatial hashing helpers ---
-  const getCellKeyFromXY = useCallback((x: number, y: number, cellSize: number) => {
-    const ix = Math.floor(x / cellSize);
-    const iy = Math.floor(y / cellSize);
-    return `${ix},${iy}`;
-  }, []);
-
-  const spatialInsert = useCallback((bird: BirdPosition, cellSize: number) => {
-    const key = getCellKeyFromXY(bird.x, bird.y, cellSize);
-    bird.cellKey = key;
-    let bucket = spatialHashRef.current.get(key);
-    if (!bucket) {
-      bucket = new Set<BirdPosition>();
-      spatialHashRef.current.set(key, bucket);
-    }
-    bucket.add(bird);
-  }, [getCellKeyFromXY]);
-
-  const spatialUpdateIfMoved = useCallback((bird: BirdPosition, cellSize: number) => {
-    const nextKey = getCellKeyFromXY(bird.x, bird.y, cellSize);
-    if (bird.cellKey === nextKey) return;
-    if (bird.cellKey) {
-      const prev = spatialHashRef.current.get(bird.cellKey);
-      prev?.delete(bird);
-      if (prev && prev.size === 0) spatialHashRef.current.delete(bird.cellKey);
-    }
-    bird.cellKey = nextKey;
-    let next = spatialHashRef.current.get(nextKey);
-    if (!next) {
-      next = new Set<BirdPosition>();
-      spatialHashRef.current.set(nextKey, next);
-    }
-    next.add(bird);
-  }, [getCellKeyFromXY]);
-
-  const spatialRemove = useCallback((bird: BirdPosition) => {
-    if (!bird.cellKey) return;
-    const bucket = spatialHashRef.current.get(bird.cellKey);
-    bucket?.delete(bird);
-    if (bucket && bucket.size === 0) spatialHashRef.current.delete(bird.cellKey);
-    bird.cellKey = undefined;
-  }, []);
-
-  const queryNearbyBirds = useCallback((x: number, y: number, radius: number) => {
-    const result: BirdPosition[] = [];
-    const cellSize = Math.max(1, radius * 2);
-    const ix = Math.floor(x / cellSize);
-    const iy = Math.floor(y / cellSize);
-    for (let dy = -1; dy <= 1; dy++) {
-      for (let dx = -1; dx <= 1; dx++) {
-        const key = `${ix + dx},${iy + dy}`;
-        const bucket = spatialHashRef.current.get(key);
-        if (!bucket) continue;
-        bucket.forEach(b => { if (b.status === 'flying') result.push(b); });
-      }
-    }
-    return result;
-  }, []);
-
-  const gameLoop = useCallback(() => {
-    if (!canvasRef.current || !ctxRef.current) return;
-    const now = performance.now();
-    const dt = lastFrameTimeRef.current ? (now - lastFrameTimeRef.current) / 1000 : 0;
-    lastFrameTimeRef.current = now;
-    const canvas = canvasRef.current;
-    const ctx = ctxRef.current;
-    ctx.clearRect(0, 0, canvas.width, canvas.height);
-    drawBackground(ctx, canvas);
-    if (gameStarted && !gameOver && !waitingForPlayers) {
-      if (cursorAnimRef.current.isHitting) {
-        cursorAnimRef.current.hitTimer += dt;
-        const newFrame = Math.floor(cursorAnimRef.current.hitTimer * 10);
-        if (newFrame >= 2) { cursorAnimRef.current.isHitting = false; cursorAnimRef.current.hitFrame = 0; cursorAnimRef.current.hitTimer = 0; }
-        else if (newFrame !== cursorAnimRef.current.hitFrame) { cursorAnimRef.current.hitFrame = newFrame; }
-      }
-      // --- Simulation step (movement + pooling + spatial hash updates)
-      if (gameContainerRef.current) {
-        const { clientWidth: width, clientHeight: height } = gameContainerRef.current;
-        const hitRadius = getScaledSize(32);
-        const cellSize = Math.max(1, hitRadius * 2);
-        for (let i = 0; i < birdsRef.current.length;) {
-          const bird = birdsRef.current[i];
-          if (bird.status === 'hit') {
-            const gravity = 0.1;
-            bird.velocityY = bird.velocityY + gravity;
-            bird.y = bird.y + bird.velocityY;
-            spatialUpdateIfMoved(bird, cellSize);
-            if (bird.y <= height + 100) {
-              i++;
-            } else {
-              spatialRemove(bird);
-              bird.active = false;
-              birdPoolRef.current.push(bird);
-              const last = birdsRef.current.pop()!;
-              if (i < birdsRef.current.length) {
-                birdsRef.current[i] = last;
-              }
-            }
-          } else {
-            let newX = bird.x + bird.velocityX;
-            let newY = bird.y + bird.velocityY;
-            if (bird.bird.name === 'Butterfly') {
-              const waveFrequency = 0.03;
-              const waveAmplitude = 1.2;
-              newY = bird.initialY + bird.velocityY * (bird.x / bird.velocityX) + Math.sin(bird.x * waveFrequency) * waveAmplitude * 20;
-            } else if (bird.bird.name === 'Bee') {
-              newX += (Math.random() - 0.5) * 3;
-            }
-            if (newX >= -150 && newX <= width + 150 && newY >= -150 && newY <= height + 150) {
-              bird.x = newX; bird.y = newY; spatialUpdateIfMoved(bird, cellSize); i++;
-            } else {
-              spatialRemove(bird);
-              bird.active = false;
-              birdPoolRef.current.push(bird);
-              const last = birdsRef.current.pop()!;
-              if (i < birdsRef.current.length) {
-                birdsRef.current[i] = last;
-              }
-            }
-          }
-        }
-      }
-      // Draw birds after update
-      for (let i = 0; i < birdsRef.current.length; i++) drawBird(ctx, birdsRef.current[i]);
-      // Floating points: faster rise and short lifetime
-      if (floatingPointsRef.current.length > 0) {
-        for (let i = 0; i < floatingPointsRef.current.length; i++) { const p = floatingPointsRef.current[i]; p.y -= 350 * dt; p.opacity -= 1.6 * dt; }
-        floatingPointsRef.current = floatingPointsRef.current.filter(p => p.opacity > 0);
-        for (let i = 0; i < floatingPointsRef.current.length; i++) drawFloatingPoint(ctx, floatingPointsRef.current[i]);
-      }
+  // Birds (and boss hits, see claimKey) this client has already claimed this game, so repeat swings don't re-send
+  const claimedBirdsRef = useRef(new Set<string>());
+  // Host-only: collects competing claims and picks one winner per bird
+  const arbiterRef = useRef(new ClaimArbiter());
+
+  // Every client applies the host's decision: the bird falls for everyone,
+  // and only the winner scores it and records the hit
+  const grantCatch = useFunctionTogether('grant-catch', useCallback(async (grant: CatchClaim) => {
+    if (grant.gameId !== gameId) return;
+    const isMine = grant.userId === myId;
+
+    const worldTick = grant.worldTick ?? engine.tick + 1;
+    if (getInsect(grant.birdType)?.boss) {
+      // The boss's minions spawn where it flies, so every field wears it down and brings it down on the same tick;
+      // a hit that doesn't finish it only wears it down, for everyone
+      const health = (grant.health ?? 1) - 1;
+      engine.addInput({ tick: worldTick, kind: 'bossHit', birdId: grant.birdId, health });
+      if (health > 0) return;
+    } else {
+      // The winner also gets the floating points where they hit it
+      const bird = isMine ? engine.catchBird(grant.birdId, grant.points, grant.multiplier) : null;
+      if (!bird) engine.removeCaught(grant.birdId);
     }
-    drawBatCursor(ctx);
-    gameLoopRef.current = requestAnimationFrame(gameLoop);
-  }, [gameStarted, gameOver, waitingForPlayers, drawBackground, drawBird, drawFloatingPoint, drawBatCursor, getScaledSize, spatialRemove, spatialUpdateIfMoved]);
-  const createBird = useCallback((flockOptions?: { side: number; y: number }) => {
-    if (gameOver || !gameStarted || !gameContainerRef.current) return;
-    const container = gameContainerRef.current;
-    const width = container.clientWidth;
-    const height = container.clientHeight;
-    
-    // Responsive spawn distance based on container size, but capped to prevent going outside
-    const spawnDistance = Math.min(getScaledSize(100), Math.min(width, height) * 0.2);
-    
-    let x = 0, y = 0, targetX = 0, targetY = 0;
-    const side = flockOptions?.side ?? Math.floor(Math.random() * 4);
-    switch (side) {
-      case 0: x = -spawnDistance; y = Math.max(spawnDistance, Math.min(height - spawnDistance, flockOptions?.y ?? Math.random() * height)); targetX = width + spawnDistance; targetY = Math.max(spawnDistance, Math.min(height - spawnDistance, Math.random() * height)); break;
-      case 1: x = width + spawnDistance; y = Math.max(spawnDistance, Math.min(height - spawnDistance, flockOptions?.y ?? Math.random() * height)); targetX = -spawnDistance; targetY = Math.max(spawnDistance, Math.min(height - spawnDistance, Math.random() * height)); break;
-      case 2: x = Math.max(spawnDistance, Math.min(width - spawnDistance, Math.random() * width)); y = -spawnDistance; targetX = Math.max(spawnDistance, Math.min(width - spawnDistance, Math.random() * width)); targetY = height + spawnDistance; break;
-      case 3: x = Math.max(spawnDistance, Math.min(width - spawnDistance, Math.random() * width)); y = height + spawnDistance; targetX = Math.max(spawnDistance, Math.min(width - spawnDistance, Math.random() * width)); targetY = -spawnDistance; break;
+
+    // World power-ups change every field from the host's chosen tick; the rest
+    // only help the winner, from the next tick so a replay keeps them, and
+    // extra time goes on the shared clock and the engine's, where it delays the boss
+    const powerUp = getInsect(grant.birdType)?.powerUp;
+    if (powerUp?.effect === 'extraTime') {
+      if (isCurrentHost) setSeconds(prev => prev + powerUp.duration);
+      engine.addInput({ tick: worldTick, kind: 'extraTime', seconds: powerUp.duration });
+    } else if (powerUp && WORLD_EFFECTS.includes(powerUp.effect)) {
+      engine.addInput({ tick: worldTick, kind: 'effect', effect: powerUp.effect, duration: powerUp.duration });
+    } else if (powerUp && isMine) {
+      engine.addInput({ tick: engine.tick + 1, kind: 'effect', effect: powerUp.effect, duration: powerUp.duration });
     }
-    const birdType = getRandomBird();
-    const dx = targetX - x;
-    const dy = targetY - y;
-    const distance = Math.sqrt(dx * dx + dy * dy);
-    const timeProgress = 1 - (seconds / 60);
-    const baseSpeed = 1.5 + (timeProgress * 1.5);
-    const speed = baseSpeed + Math.random() * 1.0;
-    const velocityX = (dx / distance) * speed;
-    const velocityY = (dy / distance) * speed;
-    // Reuse from pool if available, else create
-    const pooled = birdPoolRef.current.pop();
-    const instance: BirdPosition = pooled ?? {
-      id: '',
-      bird: birdType,
-      x: 0,
-      y: 0,
-      velocityX: 0,
-      velocityY: 0,
-      direction: 'left',
-      initialY: 0,
-      status: 'flying',
-      animation: { currentFrame: 0, lastFrameTime: Date.now() },
-      active: false,
-      cellKey: undefined,
+    // Friendly insects' time penalties are skipped here: the clock is shared,
+    // so one player's swat must not shorten everyone's round
+
+    const newHit = {
+      birdType: grant.birdType,
+      points: grant.points,
+      multiplier: grant.multiplier,
+      timestamp: grant.timestamp
     };
-    instance.id = Math.random().toString(36).substring(7);
-    instance.bird = birdType;
-    instance.x = x;
-    instance.y = y;
-    instance.velocityX = velocityX;
-    instance.velocityY = velocityY;
-    instance.direction = velocityX > 0 ? 'right' : 'left';
-    instance.initialY = y;
-    instance.status = 'flying';
-    if (!instance.animation) instance.animation = { currentFrame: 0, lastFrameTime: Date.now() };
-    instance.animation.currentFrame = 0;
-    instance.animation.lastFrameTime = Date.now();
-    instance.active = true;
-    instance.cellKey = undefined;
-    birdsRef.current.push(instance);
-    // Insert into spatial grid using current hit cell size
-    const hitRadius = getScaledSize(32);
-    spatialInsert(instance, Math.max(1, hitRadius * 2));
-  }, [gameOver, gameStarted, seconds, getScaledSize, spatialInsert]);
-
-  const createFlock = useCallback(() => {
-    if (gameOver || !gameStarted || !gameContainerRef.current) return;
-    const container = gameContainerRef.current;
-    const height = container.clientHeight;
-    const flockSize = 3 + Math.floor(Math.random() * 3);
-    const flockStartY = Math.random() * (height - 150) + 75;
-    const side = Math.floor(Math.random() * 2);
-    for (let i = 0; i < flockSize; i++) {
-      const yOffset = flockStartY + (Math.random() - 0.5) * 150;
-      setTimeout(() => createBird({ side, y: yOffset }), i * (100 + Math.random() * 50));
-    }
-  }, [createBird, gameOver, gameStarted]);
-
-  const catchBird = useCallback(async (birdId: string) => {
-    const bird = birdsRef.current.find(b => b.id === birdId);
-    if (bird && bird.status === 'flying') {
-      // Track individual hit for this player
-      const newHit = {
-        birdType: bird.bird.name,
-        points: bird.bird.points,
-        timestamp: Date.now()
-      };
-      
-      setMyHitHistory(prev => [...prev, newHit]);
-      
-      // Add floating points animation
-      const newFloatingPoint = {
-        id: Math.random().toString(36).substring(7),
-        points: bird.bird.points,
-        x: bird.x,
-        y: bird.y,
-        opacity: 1
-      };
-      floatingPointsRef.current = [...floatingPointsRef.current, newFloatingPoint];
-      
-      // Share hit data with all players via react-together
+
+    // The host is the only writer of the shared histories, so they hold granted catches only
+    if (isCurrentHost) {
       setAllHitHistories(prev => ({
         ...prev,
-        [myId]: [...(prev[myId] || []), newHit]
+        [grant.userId]: [...(prev[grant.userId] || []), newHit]
       }));
-      
-      if (dieAudioRef.current) { dieAudioRef.current.currentTime = 0; dieAudioRef.current.play(); }
-      if (gunAudioRef.current) { gunAudioRef.current.currentTime = 0; gunAudioRef.current.play(); }
-      // Mutate in place
-      bird.status = 'hit';
-      bird.velocityX = 0;
-      bird.velocityY = 2;
-
-      // Record hit on blockchain if wallet is connected
-      if (address) {
-        try {
-          const hitData: HitData = {
-            player: address,
-            points: bird.bird.points
-          };
-          // Record hit immediately for better reliability
-          const result = await hitService.recordHitImmediate(hitData);
-          if (result.success) {
-            console.log("✅ Hit recorded on blockchain:", result.hash);
-            toast({
-              title: "🎯 Hit Recorded!",
-              description: (
-                <div className="flex flex-col gap-2">
-                  {/* <span>Hit recorded on blockchain</span> */}
-                  {result.hash && (
-                    <a 
-                      href={`https://testnet.monadexplorer.com/tx/${result.hash}`}
-                      target="_blank"
-                      rel="noopener noreferrer"
-                      className="flex items-center gap-1 text-blue-500 hover:text-blue-600 text-xs"
-                    >
-                      View Transaction <ExternalLink className="h-3 w-3" />
-                    </a>
-                  )}
-                </div>
-              ),
-              variant: "success",
-              duration: 3000, // 3 seconds
-            });
-          } else {
-            console.error("❌ Failed to record hit:", result.error);
-            toast({
-              title: "❌ Hit Failed",
-              description: `Failed to record hit on blockchain: ${result.error}`,
-              variant: "destructive",
-              duration: 3000,
-            });
-          }
-        } catch (error) {
-          console.error("Failed to record hit:", error);
+    }
+
+    if (!isMine) return;
+
+    // Track individual hit for this player
+    setMyHitHistory(prev => [...prev, newHit]);
+
+    const dieAudio = dieAudioRef.current;
+    const hitSound = getInsect(grant.birdType)?.sounds.hit;
+    if (dieAudio) {
+      // Each insect names its own hit sound in the catalog
+      if (hitSound && dieAudio.getAttribute('src') !== hitSound) dieAudio.src = hitSound;
+      dieAudio.currentTime = 0;
+      dieAudio.play();
+    }
+    if (gunAudioRef.current) { gunAudioRef.current.currentTime = 0; gunAudioRef.current.play(); }
+
+    // Record hit on blockchain if wallet is connected (power-ups score nothing, the relayer can't subtract a penalty)
+    if (address && !powerUp && grant.points > 0) {
+      try {
+        const hitData: HitData = {
+          player: address,
+          points: grant.points
+        };
+        // Record hit immediately for better reliability
+        const result = await hitService.recordHitImmediate(hitData);
+        if (result.success) {
+          console.log("✅ Hit recorded on blockchain:", result.hash);
+          toast({
+            title: "🎯 Hit Recorded!",
+            description: (
+              <div className="flex flex-col gap-2">
+                {/* <span>Hit recorded on blockchain</span> */}
+                {result.hash && (
+                  <a 
+                    href={`https://testnet.monadexplorer.com/tx/${result.hash}`}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="flex items-center gap-1 text-blue-500 hover:text-blue-600 text-xs"
+                  >
+                    View Transaction <ExternalLink className="h-3 w-3" />
+                  </a>
+                )}
+              </div>
+            ),
+            variant: "success",
+            duration: 3000, // 3 seconds
+          });
+        } else {
+          console.error("❌ Failed to record hit:", result.error);
           toast({
             title: "❌ Hit Failed",
-            description: `Failed to record hit on blockchain: ${error}`,
+            description: `Failed to record hit on blockchain: ${result.error}`,
             variant: "destructive",
             duration: 3000,
           });
         }
+      } catch (error) {
+        console.error("Failed to record hit:", error);
+        toast({
+          title: "❌ Hit Failed",
+          description: `Failed to record hit on blockchain: ${error}`,
+          variant: "destructive",
+          duration: 3000,
+        });
       }
     }
-  }, [address, myId, toast]);
+  }, [address, engine, gameId, isCurrentHost, myId, setAllHitHistories, setSeconds, toast]));
+
+  // Host: hold each bird's first claim open briefly, then grant the earliest swing
+  const claimCatch = useFunctionTogether('claim-catch', useCallback((claim: CatchClaim) => {
+    if (!isCurrentHost || claim.gameId !== gameId) return;
+    if (arbiterRef.current.submit(claim, Date.now())) {
+      setTimeout(() => {
+        arbiterRef.current.resolve(Date.now()).forEach(grant => grantCatch({ ...grant, worldTick: engine.tick + WORLD_EFFECT_DELAY_TICKS }));
+      }, CLAIM_WINDOW_MS);
+    }
+  }, [isCurrentHost, gameId, grantCatch, engine]));
+
+  // Swings only ask the host for the bird; nothing is scored until it is granted
+  const catchBird = useCallback((bird: BirdPosition, multiplier = 1) => {
+    claimedBirdsRef.current.add(claimKey(bird.id, bird.health));
+    claimCatch({
+      gameId,
+      birdId: bird.id,
+      userId: myId,
+      birdType: bird.bird.name,
+      points: Math.round(bird.bird.points * multiplier),
+      multiplier,
+      health: bird.health,
+      tick: engine.tick,
+      timestamp: Date.now()
+    });
+  }, [claimCatch, engine, gameId, myId]);
+
+  // Claim everything under the bat. The combo is scored locally at swing time,
+  // so a catch lost to another player's earlier swing still counts towards it
+  const swingAt = useCallback((x: number, y: number) => {
+    if (!myId) return;
+    const caught = engine.findHits(x, y).filter(bird => !claimedBirdsRef.current.has(claimKey(bird.id, bird.health)));
+    const fouls = caught.filter(bird => isPenalty(bird.bird)).length;
+    const catches = caught.length - fouls;
+    setMySwingHistory(prev => [...prev, { x, y, catches, timestamp: Date.now() }]);
+    const doubled = engine.isEffectActive('doublePoints') ? 2 : 1;
+    const multiplier = comboRef.current.swing(Date.now(), catches, fouls) * doubled;
+    setCombo({ streak: comboRef.current.streak, multiplier: comboRef.current.multiplier });
+    // Penalties are never multiplied
+    caught.forEach(bird => catchBird(bird, isPenalty(bird.bird) ? 1 : multiplier));
+  }, [catchBird, engine, myId, setMySwingHistory]);
+
+  // Pinches and swats swing the bat where the hand is
+  const handSwing = () => {
+    // Only process hits during active game
+    if (!gameStarted || gameOver || waitingForPlayers || calibrating) return;
+    engine.triggerSwing();
+    if (gunAudioRef.current) { gunAudioRef.current.currentTime = 0; gunAudioRef.current.play(); }
+    swingAt(engine.cursor.x, engine.cursor.y);
+  };
 
-  // Removed separate moveBirds RAF; movement handled in unified gameLoop
+  // Clear the HUD combo once the streak window runs out
+  useEffect(() => {
+    const expiresAt = comboRef.current.expiresAt;
+    if (expiresAt === null) return;
+    const timeout = setTimeout(() => setCombo({ streak: 0, multiplier: 1 }), expiresAt - Date.now());
+    return () => clearTimeout(timeout);
+  }, [combo]);
 
   // Host: reset shared state on initial mount for a new session
   useEffect(() => {
     if (isHost) {
       setGameStarted(false);
       setCountdown(0);
-      setSeconds(60);
+      setDifficultyId(hostDifficulty ?? DEFAULT_DIFFICULTY);
+      setSeconds(getDifficulty(hostDifficulty).roundDuration);
       setGameId(1);
       setGameResults({});
       setSessionLocked(false);
@@ -757,20 +512,21 @@ const GameScreenMultiplayer = ({ onBackToMenu, isHost, roomId }: GameScreenMulti
           setGameOver(false);
           setGameStarted(false);
           setCountdown(0);
-          setSeconds(60);
+          setSeconds(difficulty.roundDuration);
       }
   };
 
   // Multiplayer Supabase integration - save game data at game over
   useEffect(() => {
-    if (gameOver && isCurrentHost && myHitHistory.length > 0 && address && !hasSavedGameData) {
+    if (gameOver && isCurrentHost && (myHitHistory.length > 0 || mySwingHistory.length > 0) && address && !hasSavedGameData) {
       // Collect all players' data for this game with individual hit histories
       const allPlayersData = Object.entries(allTotalScores).map(([userId, userScore]) => ({
         playerAddress: allWalletAddresses[userId] || '',
         playerId: userId,
         finalScore: userScore,
         totalHits: allTotalHits[userId] || 0,
-        hitHistory: allHitHistories[userId] || [] // ✅ Now has all players' individual hits!
+        hitHistory: allHitHistories[userId] || [], // ✅ Now has all players' individual hits!
+        swingHistory: allSwingHistories[userId] || []
       }));
 
       saveGameData({
@@ -779,7 +535,9 @@ const GameScreenMultiplayer = ({ onBackToMenu, isHost, roomId }: GameScreenMulti
         score: myCurrentScore,
         hits: myCurrentHits,
         hitHistory: myHitHistory,
-        durationSec: 60 - seconds,
+        swingHistory: mySwingHistory,
+        durationSec: Math.round(engine.time),
+        difficulty: difficulty.id,
         playerId: myId,
         gameNumber: gameId,
         sessionId: currentSessionId,
@@ -794,13 +552,18 @@ const GameScreenMultiplayer = ({ onBackToMenu, isHost, roomId }: GameScreenMulti
         console.error("❌ Failed to save multiplayer game data:", err);
       });
     }
-  }, [gameOver, isCurrentHost, myHitHistory, address, myCurrentScore, myCurrentHits, seconds, myId, gameId, currentSessionId, allTotalScores, allTotalHits, allWalletAddresses, allHitHistories, hasSavedGameData]);
+  }, [gameOver, isCurrentHost, myHitHistory, address, myCurrentScore, myCurrentHits, engine, difficulty, myId, gameId, currentSessionId, allTotalScores, allTotalHits, allWalletAddresses, allHitHistories, allSwingHistories, mySwingHistory, hasSavedGameData]);
 
   // Reset save flag when new game starts
   useEffect(() => {
     if (myId) {
         setMyHitHistory([]); // Reset hit history
-        // birdsRef is authoritative; no React state mirror needed
+        setMySwingHistory([]);
+        engine.reset(); // Clear the field left over from the previous game
+        claimedBirdsRef.current.clear();
+        arbiterRef.current.reset();
+        comboRef.current.reset();
+        setCombo({ streak: 0, multiplier: 1 });
         setGameOver(false);
         setHasSavedGameData(false); // Reset save flag for new game
         if (gameId === 1) {
@@ -808,7 +571,7 @@ const GameScreenMultiplayer = ({ onBackToMenu, isHost, roomId }: GameScreenMulti
             setMyTotalHits(0);
         }
     }
-  }, [gameId, myId, setMyHitHistory, setMyTotalScore, setMyTotalHits]);
+  }, [gameId, myId, engine, setMyHitHistory, setMySwingHistory, setMyTotalScore, setMyTotalHits]);
 
   // Countdown logic (shared)
   useEffect(() => {
@@ -825,6 +588,25 @@ const GameScreenMultiplayer = ({ onBackToMenu, isHost, roomId }: GameScreenMulti
     }
   }, [countdown, gameStarted, setCountdown, setGameStarted]);
 
+  // Host: publish a fresh seed and tick origin for each game. Clients step to
+  // the tick implied by their own clock, so small clock skew only shifts when
+  // they see the field, never what they see.
+  useEffect(() => {
+    if (!isCurrentHost || !gameStarted || gameOver || currentTimeline) return;
+    setTimeline({ gameId, seed: randomSeed(), originTick: 0, startedAt: Date.now(), difficulty: difficulty.id });
+  }, [isCurrentHost, gameStarted, gameOver, currentTimeline, gameId, difficulty, setTimeline]);
+
+  // Host: re-anchor the origin when play resumes after waiting for players,
+  // otherwise every client would fast-forward through the pause
+  const wasWaitingRef = useRef(false);
+  useEffect(() => {
+    const resumed = wasWaitingRef.current && !waitingForPlayers;
+    wasWaitingRef.current = waitingForPlayers;
+    if (resumed && isCurrentHost && currentTimeline && gameStarted && !gameOver) {
+      setTimeline({ ...currentTimeline, originTick: engine.tick, startedAt: Date.now() });
+    }
+  }, [waitingForPlayers, isCurrentHost, currentTimeline, gameStarted, gameOver, engine, setTimeline]);
+
   // Timer logic (shared)
   useEffect(() => {
     if (!gameStarted || gameOver) return;
@@ -842,55 +624,6 @@ const GameScreenMultiplayer = ({ onBackToMenu, isHost, roomId }: GameScreenMulti
     };
   }, [gameStarted, gameOver, setSeconds]);
 
-  // Bird spawning and animation
-  useEffect(() => {
-    if (!gameStarted || gameOver || waitingForPlayers) return;
-    const spawnLoop = () => {
-      const spawnDelay = 250 + (seconds / 60) * 600;
-      if (Math.random() < 0.15) createFlock();
-      else createBird();
-      spawnTimeoutRef.current = setTimeout(spawnLoop, spawnDelay);
-    };
-    spawnLoop();
-    return () => {
-      if (spawnTimeoutRef.current) clearTimeout(spawnTimeoutRef.current);
-    };
-  }, [gameStarted, gameOver, waitingForPlayers, seconds, createBird, createFlock]);
-
-  // Canvas init & unified RAF like single-player
-  useEffect(() => {
-    if (!canvasRef.current) return;
-    const canvas = canvasRef.current;
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
-    ctxRef.current = ctx;
-    const resizeCanvas = () => {
-      if (!gameContainerRef.current) return;
-      const rect = gameContainerRef.current.getBoundingClientRect();
-      const dpr = Math.max(1, window.devicePixelRatio || 1);
-      canvas.width = Math.floor(rect.width * dpr);
-      canvas.height = Math.floor(rect.height * dpr);
-      canvas.style.width = `${rect.width}px`;
-      canvas.style.height = `${rect.height}px`;
-      ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
-      ctx.imageSmoothingEnabled = true;
-      ctx.imageSmoothingQuality = 'high';
-    };
-    resizeCanvas();
-    window.addEventListener('resize', resizeCanvas);
-    initializeSpriteSheets();
-    return () => { window.removeEventListener('resize', resizeCanvas); };
-  }, [initializeSpriteSheets]);
-
-  useEffect(() => {
-    if (!gameLoopRef.current) {
-      gameLoopRef.current = requestAnimationFrame(gameLoop);
-    }
-    return () => {
-      if (gameLoopRef.current) { cancelAnimationFrame(gameLoopRef.current); gameLoopRef.current = null; }
-    };
-  }, [gameLoop]);
-
   // Background music
   useEffect(() => {
     if (gameStarted && !gameOver && !waitingForPlayers) {
@@ -927,24 +660,9 @@ const GameScreenMultiplayer = ({ onBackToMenu, isHost, roomId }: GameScreenMulti
     if (handModeEnabled) return;
     if (!gameContainerRef.current) return;
     const rect = gameContainerRef.current.getBoundingClientRect();
-    const x = e.clientX - rect.left;
-    const y = e.clientY - rect.top;
-    cursorPosRef.current = { x, y };
-  }, [handModeEnabled]);
-
-  // Direct hand position update (no RAF loop, no smoothing)
-  const updateHandPosition = useCallback((palmPos: { x: number; y: number }) => {
-    if (!handModeEnabled || !gameContainerRef.current) return;
-    const rect = gameContainerRef.current.getBoundingClientRect();
-    const targetX = palmPos.x * rect.width;
-    const targetY = palmPos.y * rect.height;
-    cursorPosRef.current = { x: targetX, y: targetY };
-    currentHandPosRef.current = { x: targetX, y: targetY };
-  }, [handModeEnabled]);
-
-  // Cursor animation handled in unified RAF via cursorAnimRef
-
-  // Floating points animated via RAF using floatingPointsRef
+    const { x, y } = engine.toWorld(e.clientX - rect.left, e.clientY - rect.top);
+    engine.setCursor(x, y);
+  }, [engine, handModeEnabled]);
 
   // Handle mouse click for bat hitting animation
   const handleGameAreaClick = useCallback((e: React.MouseEvent) => {
@@ -957,30 +675,15 @@ const GameScreenMultiplayer = ({ onBackToMenu, isHost, roomId }: GameScreenMulti
     }
     
     // Start hit animation
-    cursorAnimRef.current.isHitting = true;
-    cursorAnimRef.current.hitFrame = 0;
-    cursorAnimRef.current.hitTimer = 0;
+    engine.triggerSwing();
 
     // Check for collision with birds at click position using responsive hit radius
     if (gameContainerRef.current && gameStarted && !gameOver) {
       const rect = gameContainerRef.current.getBoundingClientRect();
-      const clickX = e.clientX - rect.left;
-      const clickY = e.clientY - rect.top;
-      
-      // Use responsive hit radius based on container size (32)
-      const hitRadius = getScaledSize(32);
-      const r2 = hitRadius * hitRadius;
-      const candidates = queryNearbyBirds(clickX, clickY, hitRadius);
-      for (let i = 0; i < candidates.length; i++) {
-        const bird = candidates[i];
-        const dx = clickX - bird.x;
-        const dy = clickY - bird.y;
-        if (dx * dx + dy * dy < r2) {
-          catchBird(bird.id);
-        }
-      }
+      const click = engine.toWorld(e.clientX - rect.left, e.clientY - rect.top);
+      swingAt(click.x, click.y);
     }
-  }, [gameStarted, gameOver, catchBird, getScaledSize, queryNearbyBirds]);
+  }, [gameStarted, gameOver, swingAt, engine]);
 
   // Copy room ID to clipboard
   const copyRoomId = async () => {
@@ -1040,9 +743,14 @@ const GameScreenMultiplayer = ({ onBackToMenu, isHost, roomId }: GameScreenMulti
             
             <div className="text-center mb-6">
                 <h3 className="text-2xl mb-2">Scores for Game {gameId}</h3>
-                {Object.entries(allTotalScores).map(([userId, userTotalScore]) => (
-                    <p key={userId}>{getPlayerDisplayName(userId)}: {userTotalScore} (Hits: {allTotalHits[userId] || 0})</p>
-                ))}
+                {Object.entries(allTotalScores).map(([userId, userTotalScore]) => {
+                    const stats = swingStats(allSwingHistories[userId] || [], engine.time);
+                    return (
+                        <p key={userId}>
+                            {getPlayerDisplayName(userId)}: {userTotalScore} (Hits: {allTotalHits[userId] || 0}, Accuracy: {formatAccuracy(stats)}, Swings/min: {stats.swingsPerMinute.toFixed(1)})
+                        </p>
+                    );
+                })}
             </div>
 
             <div className="text-center">
@@ -1119,9 +827,13 @@ const GameScreenMultiplayer = ({ onBackToMenu, isHost, roomId }: GameScreenMulti
     <div className="min-h-screen w-full bg-background text-foreground font-press-start flex flex-col items-center justify-between p-8 relative select-none">
       <div className="absolute left-0 top-0 w-full flex justify-between items-start px-8 pt-6 z-20">
         <div className="flex flex-col items-start">
-          <div className="text-lg">Game: {gameId}</div>
+          <div className="text-lg">Game: {gameId} ({difficulty.label})</div>
           <div className="text-lg">Time: {formatTime(seconds)}</div>
           <div className="text-lg">Score: {myCurrentScore} | Hits: {myCurrentHits}</div>
+          {combo.streak > 1 && (
+            <div className="text-lg text-yellow-400">Combo: {combo.streak} (x{combo.multiplier})</div>
+          )}
+          <PowerUpTimers engine={engine} running={gameStarted && !gameOver} />
         </div>
 
           <div className="flex flex-col items-end">
@@ -1138,12 +850,27 @@ const GameScreenMultiplayer = ({ onBackToMenu, isHost, roomId }: GameScreenMulti
           </div>
           <div className="flex gap-2 mb-2">
             <Button
-              onClick={() => setHandModeEnabled((prev) => !prev)}
+              onClick={toggleHandMode}
               className={`${handModeEnabled ? "bg-green-600 hover:bg-green-700" : "bg-blue-600 hover:bg-blue-700"} text-white px-4 py-2 rounded`}
             >
               {handModeEnabled ? "Hand Mode: ON" : "Hand Mode: OFF"}
             </Button>
+            {handModeEnabled && (
+              <Button onClick={startCalibration} disabled={calibrating} className="bg-purple-600 text-white px-4 py-2 rounded hover:bg-purple-700">
+                Calibrate
+              </Button>
+            )}
+            {handModeEnabled && (
+              <Button onClick={() => setShowHandSettings(prev => !prev)} className="bg-purple-600 text-white px-4 py-2 rounded hover:bg-purple-700">
+                Hand Settings
+              </Button>
+            )}
           </div>
+          {handModeEnabled && showHandSettings && (
+            <div className="mb-2">
+              <HandSettingsPanel settings={filterSettings} onChange={updateFilterSettings} />
+            </div>
+          )}
           {isCurrentHost ? (
             users.length >= 2 ? (
               <div className="flex gap-2">
@@ -1182,6 +909,17 @@ const GameScreenMultiplayer = ({ onBackToMenu, isHost, roomId }: GameScreenMulti
             style={{ imageRendering: 'auto' }}
           />
 
+          {calibrating && (
+            <HandCalibration
+              palm={calibrationPalm}
+              onSave={box => {
+                saveReach(box);
+                setCalibrating(false);
+              }}
+              onCancel={() => setCalibrating(false)}
+            />
+          )}
+
           {!gameStarted && !gameOver && (
             <div className="absolute inset-0 flex items-center justify-center z-50 bg-black/20">
               <div className="flex flex-col items-center">
@@ -1252,42 +990,22 @@ const GameScreenMultiplayer = ({ onBackToMenu, isHost, roomId }: GameScreenMulti
         enabled={handModeEnabled}
         onEnter={() => console.log('Hand mode entered (multiplayer)')}
         onExit={() => console.log('Hand mode exited (multiplayer)')}
-        onPinch={() => {
-          // Only process hits during active game
-          if (!gameStarted || gameOver || waitingForPlayers) return;
-          
-          // Trigger hit animation
-          cursorAnimRef.current.isHitting = true;
-          cursorAnimRef.current.hitFrame = 0;
-          cursorAnimRef.current.hitTimer = 0;
-          if (gunAudioRef.current) { gunAudioRef.current.currentTime = 0; gunAudioRef.current.play(); }
-          
-          // Use current real-time hand position for hit detection (same as mouse)
-          if (cursorPosRef.current) {
-            const hitRadius = getScaledSize(32);
-            const cx = cursorPosRef.current.x;
-            const cy = cursorPosRef.current.y;
-            const r2 = hitRadius * hitRadius;
-            const candidates = queryNearbyBirds(cx, cy, hitRadius);
-            for (let i = 0; i < candidates.length; i++) {
-              const bird = candidates[i];
-              const dx = cx - bird.x;
-              const dy = cy - bird.y;
-              if (dx * dx + dy * dy < r2) { catchBird(bird.id); }
-            }
-          }
+        onPinch={handSwing}
+        // Shared rounds can't pause and hold no power-ups, so only swats are mapped
+        onGesture={gesture => {
+          if (gesture.type === 'swat') handSwing();
         }}
         onHandData={(data) => {
           if (!handModeEnabled) return;
           const source = data.palmCenter;
+          if (calibrating) {
+            setCalibrationPalm(source);
+            return;
+          }
           if (!source) return;
 
-          // Direct position update - no smoothing for maximum responsiveness
-          const nx = Math.max(0, Math.min(1, source.x));
-          const ny = Math.max(0, Math.min(1, source.y));
-          
-          // Update position immediately
-          updateHandPosition({ x: nx, y: ny });
+          // The engine loop draws the filtered bat between camera frames
+          handFilters[0].push({ t: performance.now(), ...mapToReach(reach ?? FULL_FRAME, source) });
         }}
       />
     </div>
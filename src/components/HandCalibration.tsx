@@ -0,0 +1,117 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { ReachBox, reachBoxFromTrace } from "@/lib/handCalibration";
+
+// How long the player traces their reach for
+const TRACE_SECONDS = 6;
+
+interface HandCalibrationProps {
+  // Raw palm position from hand tracking (normalized, mirrored), null while no hand is seen
+  palm: { x: number; y: number } | null;
+  onSave: (box: ReachBox) => void;
+  onCancel: () => void;
+}
+
+// Calibration wizard: the player traces the area they can comfortably reach, which then maps onto the whole field
+const HandCalibration = ({ palm, onSave, onCancel }: HandCalibrationProps) => {
+  const [step, setStep] = useState<'ready' | 'tracing' | 'review'>('ready');
+  const [secondsLeft, setSecondsLeft] = useState(TRACE_SECONDS);
+  const [trace, setTrace] = useState<{ x: number; y: number }[]>([]);
+  const box = step === 'review' ? reachBoxFromTrace(trace) : null;
+
+  useEffect(() => {
+    if (step === 'tracing' && palm) setTrace(prev => [...prev, palm]);
+  }, [step, palm]);
+
+  useEffect(() => {
+    if (step !== 'tracing') return;
+    const timer = setTimeout(() => {
+      if (secondsLeft <= 1) setStep('review');
+      setSecondsLeft(secondsLeft - 1);
+    }, 1000);
+    return () => clearTimeout(timer);
+  }, [step, secondsLeft]);
+
+  const startTrace = () => {
+    setTrace([]);
+    setSecondsLeft(TRACE_SECONDS);
+    setStep('tracing');
+  };
+
+  return (
+    <div
+      className="absolute inset-0 z-50 bg-black/70 text-white flex flex-col items-center justify-center gap-4 p-4 text-center"
+      onClick={e => e.stopPropagation()}
+    >
+      <svg className="absolute inset-0 w-full h-full pointer-events-none" viewBox="0 0 1 1" preserveAspectRatio="none">
+        {trace.length > 1 && (
+          <polyline
+            points={trace.map(p => `${p.x},${p.y}`).join(" ")}
+            fill="none"
+            stroke="#22c55e"
+            strokeWidth={3}
+            vectorEffect="non-scaling-stroke"
+          />
+        )}
+        {box && (
+          <rect
+            x={box.minX}
+            y={box.minY}
+            width={box.maxX - box.minX}
+            height={box.maxY - box.minY}
+            fill="#22c55e33"
+            stroke="#f59e0b"
+            strokeWidth={2}
+            vectorEffect="non-scaling-stroke"
+          />
+        )}
+        {palm && <circle cx={palm.x} cy={palm.y} r={0.012} fill="#60a5fa" />}
+      </svg>
+
+      <div className="relative flex flex-col items-center gap-4 max-w-md">
+        <div className="text-2xl font-bold">Calibrate Hand Mode</div>
+        {step === 'ready' && (
+          <>
+            <div className="text-sm">
+              Stand where you will play and move your open hand around the biggest area you can reach without stretching.
+              That area will cover the whole field.
+            </div>
+            <Button onClick={startTrace} disabled={!palm} className="bg-green-600 hover:bg-green-700 text-white">
+              {palm ? "Start Tracing" : "Show your hand to the camera"}
+            </Button>
+          </>
+        )}
+        {step === 'tracing' && (
+          <>
+            <div className="text-sm">Trace the edges of your comfortable reach…</div>
+            <div className="text-6xl font-bold">{secondsLeft}</div>
+          </>
+        )}
+        {step === 'review' && (
+          <>
+            <div className="text-sm">
+              {box
+                ? "The orange box now covers the whole field."
+                : "That trace covered too little of the camera view. Move your hand further and try again."}
+            </div>
+            <div className="flex gap-2">
+              {box && (
+                <Button onClick={() => onSave(box)} className="bg-green-600 hover:bg-green-700 text-white">
+                  Save
+                </Button>
+              )}
+              <Button onClick={startTrace} className="bg-blue-600 hover:bg-blue-700 text-white">
+                Retry
+              </Button>
+            </div>
+          </>
+        )}
+        <Button onClick={onCancel} variant="outline" className="text-black">
+          Cancel
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default HandCalibration;
@@ -0,0 +1,98 @@
+import { Button } from "@/components/ui/button";
+import { CURSOR_FILTERS, CursorFilterKind, CursorFilterSettings, DEFAULT_FILTER_SETTINGS, FILTER_LABELS } from "@/lib/cursorFilter";
+
+interface HandSettingsPanelProps {
+  settings: CursorFilterSettings;
+  onChange: (settings: CursorFilterSettings) => void;
+}
+
+interface Slider {
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  get: (settings: CursorFilterSettings) => number;
+  set: (settings: CursorFilterSettings, value: number) => CursorFilterSettings;
+}
+
+// The sliders each filter exposes, on top of the shared prediction slider
+const FILTER_SLIDERS: Record<CursorFilterKind, Slider[]> = {
+  none: [],
+  exponential: [
+    {
+      label: 'Smoothing', min: 0, max: 0.95, step: 0.05,
+      get: s => s.exponential.smoothing,
+      set: (s, v) => ({ ...s, exponential: { smoothing: v } }),
+    },
+  ],
+  oneEuro: [
+    {
+      label: 'Min cutoff (Hz)', min: 0.1, max: 5, step: 0.1,
+      get: s => s.oneEuro.minCutoff,
+      set: (s, v) => ({ ...s, oneEuro: { ...s.oneEuro, minCutoff: v } }),
+    },
+    {
+      label: 'Speed response (beta)', min: 0, max: 40, step: 1,
+      get: s => s.oneEuro.beta,
+      set: (s, v) => ({ ...s, oneEuro: { ...s.oneEuro, beta: v } }),
+    },
+  ],
+  kalman: [
+    {
+      label: 'Responsiveness', min: 0.1, max: 20, step: 0.1,
+      get: s => s.kalman.processNoise,
+      set: (s, v) => ({ ...s, kalman: { ...s.kalman, processNoise: v } }),
+    },
+    {
+      label: 'Camera jitter', min: 0.001, max: 0.03, step: 0.001,
+      get: s => s.kalman.measurementNoise,
+      set: (s, v) => ({ ...s, kalman: { ...s.kalman, measurementNoise: v } }),
+    },
+  ],
+};
+
+const PREDICTION_SLIDER: Slider = {
+  label: 'Prediction (ms)', min: 0, max: 150, step: 5,
+  get: s => s.predictionMs,
+  set: (s, v) => ({ ...s, predictionMs: v }),
+};
+
+// Hand-mode cursor settings: which filter smooths the palm position, its tuning, and how far ahead to predict
+const HandSettingsPanel = ({ settings, onChange }: HandSettingsPanelProps) => {
+  const sliders = [...FILTER_SLIDERS[settings.kind], PREDICTION_SLIDER];
+
+  return (
+    <div className="bg-black/60 text-white rounded p-3 flex flex-col gap-2 text-xs w-56">
+      <label className="flex flex-col gap-1">
+        Filter
+        <select
+          value={settings.kind}
+          onChange={e => onChange({ ...settings, kind: e.target.value as CursorFilterKind })}
+          className="text-black rounded px-1 py-0.5"
+        >
+          {CURSOR_FILTERS.map(kind => (
+            <option key={kind} value={kind}>{FILTER_LABELS[kind]}</option>
+          ))}
+        </select>
+      </label>
+      {sliders.map(({ label, min, max, step, get, set }) => (
+        <label key={label} className="flex flex-col gap-1">
+          {label}: {Number(get(settings).toFixed(3))}
+          <input
+            type="range"
+            min={min}
+            max={max}
+            step={step}
+            value={get(settings)}
+            onChange={e => onChange(set(settings, Number(e.target.value)))}
+          />
+        </label>
+      ))}
+      <Button onClick={() => onChange(DEFAULT_FILTER_SETTINGS)} variant="outline" className="font-press-start text-xs text-black">
+        Reset
+      </Button>
+    </div>
+  );
+};
+
+export default HandSettingsPanel;
@@ -1,29 +1,63 @@
 import { useEffect, useRef, useState } from "react";
+import { Camera, drawConnectors, drawLandmarks, HAND_CONNECTIONS, HandsResults, loadHands } from "@/lib/mediapipe";
+import { GestureEvent, HandGestureTracker, isPinching } from "@/lib/gestures";
+import { Handedness } from "@/lib/handLayout";
+
+// How long the hand can drop out of view before onHandLost fires
+const HAND_LOST_MS = 1000;
+
+export interface HandData {
+  indexTip: { x: number; y: number } | null;
+  indexMCP: { x: number; y: number } | null;
+  wrist: { x: number; y: number } | null;
+  palmCenter: { x: number; y: number } | null;
+  isPinch: boolean;
+}
 
-// Define the global variables that will be available from the script tags
-declare const Camera: any;
-declare const Hands: any;
-declare const HAND_CONNECTIONS: any;
-declare const drawConnectors: any;
-declare const drawLandmarks: any;
-
+export interface TrackedHand extends HandData {
+  handedness: Handedness;
+}
 
 export interface HandTrackingViewProps {
   enabled: boolean;
+  // Hands tracked at once (1 or 2); changing it restarts tracking
+  maxHands?: number;
   onEnter?: () => void;
   onExit?: () => void;
   onFingerMove?: (normX: number, normY: number) => void;
   onPinch?: () => void;
-  onHandData?: (data: {
-    indexTip: { x: number; y: number } | null;
-    indexMCP: { x: number; y: number } | null;
-    wrist: { x: number; y: number } | null;
-    palmCenter: { x: number; y: number } | null;
-    isPinch: boolean;
-  }) => void;
+  // Every recognised gesture, pinches included, with the hand that made it
+  onGesture?: (event: GestureEvent, handedness: Handedness) => void;
+  // The tracked hand has been out of view for HAND_LOST_MS
+  onHandLost?: () => void;
+  // The first tracked hand, every frame it is seen
+  onHandData?: (data: HandData) => void;
+  // Every tracked hand, every frame (empty when none are seen)
+  onHandsData?: (hands: TrackedHand[]) => void;
+}
+
+// Mirrored points and palm centre for one hand's landmarks
+function handData(landmarks: { x: number; y: number }[]): HandData {
+  const getPoint = (i: number) => ({ x: 1 - landmarks[i].x, y: landmarks[i].y });
+  const wrist = getPoint(0);
+  const m5 = getPoint(5);
+  const m9 = getPoint(9);
+  const m13 = getPoint(13);
+  const m17 = getPoint(17);
+  const palmCenter = {
+    x: (wrist.x + m5.x + m9.x + m13.x + m17.x) / 5,
+    y: (wrist.y + m5.y + m9.y + m13.y + m17.y) / 5,
+  };
+  return {
+    indexTip: getPoint(8),
+    indexMCP: m5,
+    wrist,
+    palmCenter,
+    isPinch: isPinching(landmarks),
+  };
 }
 
-const HandTrackingView = ({ enabled, onEnter, onExit, onFingerMove, onPinch, onHandData }: HandTrackingViewProps) => {
+const HandTrackingView = ({ enabled, maxHands = 1, onEnter, onExit, onFingerMove, onPinch, onGesture, onHandLost, onHandData, onHandsData }: HandTrackingViewProps) => {
   const videoRef = useRef<HTMLVideoElement | null>(null);
   const canvasRef = useRef<HTMLCanvasElement | null>(null);
   const [loading, setLoading] = useState(false);
@@ -34,60 +68,54 @@ const HandTrackingView = ({ enabled, onEnter, onExit, onFingerMove, onPinch, onH
   const onExitRef = useRef<typeof onExit | undefined>(onExit);
   const onFingerMoveRef = useRef<typeof onFingerMove | undefined>(onFingerMove);
   const onPinchRef = useRef<typeof onPinch | undefined>(onPinch);
+  const onGestureRef = useRef<typeof onGesture | undefined>(onGesture);
+  const onHandLostRef = useRef<typeof onHandLost | undefined>(onHandLost);
   const onHandDataRef = useRef<typeof onHandData | undefined>(onHandData);
-  const lastPinchAtRef = useRef<number>(0);
-  const pinchActiveRef = useRef<boolean>(false);
+  const onHandsDataRef = useRef<typeof onHandsData | undefined>(onHandsData);
+  // When a hand was last seen (0 before the first), and whether its loss was reported
+  const lastHandAtRef = useRef<number>(0);
+  const handLostRef = useRef<boolean>(false);
 
   useEffect(() => {
     onEnterRef.current = onEnter;
     onExitRef.current = onExit;
     onFingerMoveRef.current = onFingerMove;
     onPinchRef.current = onPinch;
+    onGestureRef.current = onGesture;
+    onHandLostRef.current = onHandLost;
     onHandDataRef.current = onHandData;
-  }, [onEnter, onExit, onFingerMove, onPinch, onHandData]);
+    onHandsDataRef.current = onHandsData;
+  }, [onEnter, onExit, onFingerMove, onPinch, onGesture, onHandLost, onHandData, onHandsData]);
 
   useEffect(() => {
     let isCancelled = false;
 
-    const start = () => {
+    const start = async () => {
       if (!enabled || !videoRef.current) return;
       setError(null);
       setLoading(true);
 
       try {
-        // Check if the scripts have loaded and attached themselves to the window
-        if (typeof Hands === 'undefined' || typeof Camera === 'undefined' || typeof drawConnectors === 'undefined') {
-          throw new Error("MediaPipe scripts not loaded from CDN. Check the script tags in index.html and your network connection.");
-        }
-
         const video = videoRef.current;
         const canvas = canvasRef.current!;
         const ctx = canvas.getContext("2d")!;
 
-        const hands = new Hands({
-          locateFile: (file: string) => `https://cdn.jsdelivr.net/npm/@mediapipe/hands@0.4/${file}`,
-        });
-        
-        hands.setOptions({
-          maxNumHands: 1,
+        const hands = await loadHands({
+          maxNumHands: maxHands,
           modelComplexity: 0, // Reduced from 1 for better performance
           minDetectionConfidence: 0.6, // Slightly reduced for faster detection
           minTrackingConfidence: 0.4, // Reduced for smoother tracking
         });
+        // Hand mode was switched off while the model loaded
+        if (isCancelled) {
+          hands.close();
+          return;
+        }
         handsRef.current = hands;
 
-        const isPinching = (landmarks: any[]) => {
-          const thumbTip = landmarks[4];
-          const indexTip = landmarks[8];
-          const indexMCP = landmarks[5];
-          const pinkyMCP = landmarks[17];
-          const palmWidth = Math.hypot(indexMCP.x - pinkyMCP.x, indexMCP.y - pinkyMCP.y);
-          const tipDist = Math.hypot(thumbTip.x - indexTip.x, thumbTip.y - indexTip.y);
-          if (palmWidth === 0) return false;
-          return tipDist < palmWidth * 0.45;
-        };
-
-        hands.onResults((results: any) => {
+        const gestures = new HandGestureTracker(maxHands);
+
+        hands.onResults((results: HandsResults) => {
           const w = video.videoWidth || 640;
           const h = video.videoHeight || 480;
           if (canvas.width !== w) canvas.width = w;
@@ -99,6 +127,20 @@ const HandTrackingView = ({ enabled, onEnter, onExit, onFingerMove, onPinch, onH
           ctx.drawImage(results.image, -w, 0, w, h);
           ctx.restore();
 
+          const tracked = results.multiHandLandmarks ?? [];
+          // MediaPipe labels handedness as if the image were mirrored; ours isn't, so its labels are swapped
+          const trackedHands: TrackedHand[] = tracked.map((landmarks, i) => ({
+            ...handData(landmarks),
+            handedness: results.multiHandedness?.[i]?.label === 'Left' ? 'Right' : 'Left',
+          }));
+          gestures.update(tracked, performance.now()).forEach((events, i) => {
+            for (const gesture of events) {
+              if (gesture.type === 'pinch') onPinchRef.current?.();
+              onGestureRef.current?.(gesture, trackedHands[i].handedness);
+            }
+          });
+          onHandsDataRef.current?.(trackedHands);
+
           if (results.multiHandLandmarks) {
             for (const landmarks of results.multiHandLandmarks) {
               const mirrored = landmarks.map((p: any) => ({ ...p, x: 1 - p.x }));
@@ -120,39 +162,18 @@ const HandTrackingView = ({ enabled, onEnter, onExit, onFingerMove, onPinch, onH
                 const indexTip = primary[8];
                 onFingerMoveRef.current(1 - indexTip.x, indexTip.y);
               }
-              const pinched = isPinching(primary);
-              if (pinched !== pinchActiveRef.current) {
-                pinchActiveRef.current = pinched;
-                if (pinched) {
-                  const now = performance.now();
-                  if (now - lastPinchAtRef.current > 120) { // Reduced from 300ms for better responsiveness
-                    lastPinchAtRef.current = now;
-                    onPinchRef.current?.();
-                  }
-                }
-              }
-
-              if (onHandDataRef.current) {
-                const getPoint = (i: number) => ({ x: 1 - primary[i].x, y: primary[i].y });
-                const wrist = getPoint(0);
-                const m5 = getPoint(5);
-                const m9 = getPoint(9);
-                const m13 = getPoint(13);
-                const m17 = getPoint(17);
-                const palmCenter = {
-                  x: (wrist.x + m5.x + m9.x + m13.x + m17.x) / 5,
-                  y: (wrist.y + m5.y + m9.y + m13.y + m17.y) / 5,
-                };
-                onHandDataRef.current({
-                  indexTip: getPoint(8),
-                  indexMCP: m5,
-                  wrist,
-                  palmCenter,
-                  isPinch: pinched,
-                });
-              }
+              onHandDataRef.current?.(trackedHands[0]);
             }
           }
+
+          const now = performance.now();
+          if (results.multiHandLandmarks?.[0]) {
+            lastHandAtRef.current = now;
+            handLostRef.current = false;
+          } else if (lastHandAtRef.current > 0 && !handLostRef.current && now - lastHandAtRef.current > HAND_LOST_MS) {
+            handLostRef.current = true;
+            onHandLostRef.current?.();
+          }
         });
 
         const camera = new Camera(video, {
@@ -182,6 +203,7 @@ const HandTrackingView = ({ enabled, onEnter, onExit, onFingerMove, onPinch, onH
 
     const stop = () => {
       isCancelled = true;
+      lastHandAtRef.current = 0;
       cameraControllerRef.current?.stop?.();
       cameraControllerRef.current = null;
       handsRef.current?.close?.();
@@ -189,17 +211,12 @@ const HandTrackingView = ({ enabled, onEnter, onExit, onFingerMove, onPinch, onH
       onExitRef.current?.();
     };
 
-    // Delay start to give scripts time to load from CDN
-    const timeoutId = setTimeout(() => {
-        start();
-    }, 500);
-
+    start();
 
     return () => {
-      clearTimeout(timeoutId);
       stop();
     };
-  }, [enabled]);
+  }, [enabled, maxHands]);
 
   if (!enabled) return null;
 
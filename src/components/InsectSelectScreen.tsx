@@ -3,68 +3,32 @@ import { Button } from "@/components/ui/button";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter, DialogClose } from "@/components/ui/dialog";
 import { useCreateRandomSession, useIsTogether, useLeaveSession } from "react-together";
 import { Trophy } from "lucide-react";
-import beeGif from "/animals/bee.gif";
-import butterflyGif from "/animals/butterfly.gif";
-import bluemouchGif from "/animals/bluemouch.gif";
-import mouchGif from "/animals/mouch.gif";
-
-export interface BirdType {
-  name: string;
-  image: string;
-  points: number;
-  rarity: 'common' | 'uncommon' | 'rare' | 'legendary';
-  spawnRate: number; // How many times in 60 seconds (random range)
-}
+import { insects } from "@/game/catalog";
+import { DEFAULT_DIFFICULTY, DifficultyId, difficulties } from "@/game/difficulty";
+import { SoloMode } from "@/game/types";
+import { MAX_STARS, describeObjective, isLevelUnlocked, levels } from "@/game/levels";
 
 interface BirdSelectScreenProps {
-  onStartGame: (mode: 'singleplayer' | 'multiplayer', options?: { isHost?: boolean; roomId?: string }) => void;
+  onStartGame: (mode: 'singleplayer' | 'multiplayer', options?: { isHost?: boolean; roomId?: string; difficulty?: DifficultyId; mode?: SoloMode; levelId?: string }) => void;
   onShowLeaderboard: () => void;
+  // Best stars per campaign level, for the level map
+  campaignStars: Record<string, number>;
 }
 
 const PASSWORD = import.meta.env.VITE_MULTISYNQ_SESSION_PASSWORD || 'catchbirds';
 
-const BirdSelectScreen = ({ onStartGame, onShowLeaderboard }: BirdSelectScreenProps) => {
+const BirdSelectScreen = ({ onStartGame, onShowLeaderboard, campaignStars }: BirdSelectScreenProps) => {
   const [modalOpen, setModalOpen] = useState(false);
   const [joinRoomId, setJoinRoomId] = useState("");
   const [joinError, setJoinError] = useState("");
+  const [difficulty, setDifficulty] = useState<DifficultyId>(DEFAULT_DIFFICULTY);
   const createRandomSession = useCreateRandomSession();
   const isTogether = useIsTogether();
   const leaveSession = useLeaveSession();
 
-  const birds: BirdType[] = [
-    { 
-      name: "Bee", 
-      image: beeGif, 
-      points: 1, 
-      rarity: 'common',
-      spawnRate: 15 // 15-20 times in 60 seconds
-    },
-    { 
-      name: "Butterfly", 
-      image: butterflyGif, 
-      points: 2, 
-      rarity: 'uncommon',
-      spawnRate: 10 // 10-15 times in 60 seconds
-    },
-    { 
-      name: "Blue Mouch", 
-      image: bluemouchGif, 
-      points: 5, 
-      rarity: 'rare',
-      spawnRate: 5 // 5-8 times in 60 seconds
-    },
-    { 
-      name: "Mouch", 
-      image: mouchGif, 
-      points: 10, 
-      rarity: 'legendary',
-      spawnRate: 2 // 2-4 times in 60 seconds
-    },
-  ];
-
   const handleCreateRoom = () => {
     leaveSession();
-    onStartGame('multiplayer', { isHost: true });
+    onStartGame('multiplayer', { isHost: true, difficulty });
     setModalOpen(false);
   };
 
@@ -74,6 +38,7 @@ const BirdSelectScreen = ({ onStartGame, onShowLeaderboard }: BirdSelectScreenPr
       return;
     }
     leaveSession();
+    // The host's difficulty applies to everyone in the room
     onStartGame('multiplayer', { isHost: false, roomId: joinRoomId });
     setModalOpen(false);
   };
@@ -93,7 +58,7 @@ const BirdSelectScreen = ({ onStartGame, onShowLeaderboard }: BirdSelectScreenPr
       {/* Fluid Grid Layout */}
       <div className="w-full max-w-5xl mb-8">
         <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3 md:gap-4 lg:gap-6">
-          {birds.map((bird) => (
+          {insects.filter((insect) => !insect.powerUp).map((bird) => (
             <div
               key={bird.name}
               className="bg-transparent border-2 border-white/30 text-foreground font-press-start 
@@ -111,26 +76,106 @@ const BirdSelectScreen = ({ onStartGame, onShowLeaderboard }: BirdSelectScreenPr
                 className="w-12 h-12 sm:w-16 sm:h-16 md:w-20 md:h-20 lg:w-24 lg:h-24 object-contain"
               />
               <p className="text-xs sm:text-sm font-bold text-white">
-                +{bird.points} pts
+                {bird.points < 0 ? bird.points : `+${bird.points}`} pts
               </p>
               <p className="text-xs text-muted-foreground capitalize">
-                {bird.rarity}
+                {bird.rarity === 'friendly' ? "Friendly - don't hit!" : bird.rarity}
               </p>
             </div>
           ))}
         </div>
       </div>
 
+      {/* Power-ups */}
+      <div className="flex flex-wrap items-center justify-center gap-3 w-full max-w-5xl mb-6">
+        {insects.filter((insect) => insect.powerUp).map((item) => (
+          <div key={item.id} className="flex items-center gap-2 text-xs text-white">
+            <span
+              className="flex items-center justify-center w-7 h-7 rounded-full text-gray-800"
+              style={{ backgroundColor: item.powerUp.color }}
+            >
+              {item.powerUp.icon}
+            </span>
+            {item.name}
+          </div>
+        ))}
+      </div>
+
+      {/* Difficulty */}
+      <div className="flex flex-col items-center gap-2 w-full max-w-sm mb-6">
+        <p className="text-xs sm:text-sm text-muted-foreground">Difficulty</p>
+        <div className="grid grid-cols-4 gap-2 w-full">
+          {Object.values(difficulties).map((preset) => (
+            <Button
+              key={preset.id}
+              onClick={() => setDifficulty(preset.id)}
+              variant={difficulty === preset.id ? "default" : "outline"}
+              className="font-press-start text-[10px] sm:text-xs px-1 py-2"
+            >
+              {preset.label}
+            </Button>
+          ))}
+        </div>
+        <p className="text-xs text-muted-foreground">
+          {difficulties[difficulty].roundDuration}s round
+        </p>
+      </div>
+
+      {/* Campaign level map; each level unlocks once the previous one has a star */}
+      <div className="flex flex-col items-center gap-2 w-full max-w-3xl mb-6">
+        <p className="text-xs sm:text-sm text-muted-foreground">Campaign</p>
+        <div className="grid grid-cols-2 sm:grid-cols-3 gap-2 w-full">
+          {levels.map((level, index) => {
+            const unlocked = isLevelUnlocked(index, campaignStars);
+            const earned = campaignStars[level.id] ?? 0;
+            return (
+              <Button
+                key={level.id}
+                disabled={!unlocked}
+                onClick={() => onStartGame('singleplayer', { mode: 'campaign', levelId: level.id })}
+                variant="outline"
+                className="font-press-start text-[10px] sm:text-xs h-auto py-2 flex flex-col gap-1 whitespace-normal"
+              >
+                <span>{index + 1}. {level.name}</span>
+                <span className="text-yellow-500">{'★'.repeat(earned)}{'☆'.repeat(MAX_STARS - earned)}</span>
+                <span className="text-muted-foreground">{unlocked ? describeObjective(level.objective) : 'Locked'}</span>
+              </Button>
+            );
+          })}
+        </div>
+      </div>
+
       {/* Game Mode Buttons */}
       <div className="flex flex-col gap-3 w-full max-w-sm justify-center">
         <div className="flex flex-col sm:flex-row gap-3">
           <Button
-            onClick={() => onStartGame('singleplayer')}
+            onClick={() => onStartGame('singleplayer', { difficulty })}
             className="bg-primary text-primary-foreground hover:opacity-90 font-press-start 
                        text-sm sm:text-base px-4 sm:px-6 py-2 sm:py-3 flex-1"
           >
             Singleplayer
           </Button>
+          <Button
+            onClick={() => onStartGame('singleplayer', { difficulty, mode: 'endless' })}
+            className="bg-primary text-primary-foreground hover:opacity-90 font-press-start 
+                       text-sm sm:text-base px-4 sm:px-6 py-2 sm:py-3 flex-1"
+          >
+            Endless
+          </Button>
+          <Button
+            onClick={() => onStartGame('singleplayer', { mode: 'daily' })}
+            className="bg-primary text-primary-foreground hover:opacity-90 font-press-start 
+                       text-sm sm:text-base px-4 sm:px-6 py-2 sm:py-3 flex-1"
+          >
+            Daily Mouch
+          </Button>
+          <Button
+            onClick={() => onStartGame('singleplayer', { difficulty, mode: 'practice' })}
+            className="bg-primary text-primary-foreground hover:opacity-90 font-press-start 
+                       text-sm sm:text-base px-4 sm:px-6 py-2 sm:py-3 flex-1"
+          >
+            Practice
+          </Button>
           <Button
             onClick={() => setModalOpen(true)}
             className="bg-secondary text-secondary-foreground hover:opacity-90 font-press-start 
@@ -150,6 +195,13 @@ const BirdSelectScreen = ({ onStartGame, onShowLeaderboard }: BirdSelectScreenPr
             {/* <Trophy className="w-4 h-4" /> */}
             Leaderboard&nbsp;
           </Button>
+          <Button
+            onClick={() => window.location.href = '/editor'}
+            className="bg-secondary text-secondary-foreground hover:opacity-90 font-press-start 
+                       text-sm sm:text-base px-4 sm:px-6 py-2 sm:py-3 flex items-center justify-center gap-2 flex-1"
+          >
+            Level Editor
+          </Button>
           <Button
             onClick={() => window.location.href = '/'}
             className="bg-secondary text-secondary-foreground hover:opacity-90 font-press-start 
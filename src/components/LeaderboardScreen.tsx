@@ -2,6 +2,8 @@ import { useState, useEffect } from "react";
 import { Button } from "@/components/ui/button";
 import { useAccount } from "wagmi";
 import { hitService } from "@/services/hitService";
+import { getDailyLeaderboard } from "@/services/gameDataService";
+import { dailyKey } from "@/game/daily";
 import { Trophy, Medal, User, Target, ArrowLeft } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 
@@ -25,6 +27,10 @@ const LeaderboardScreen = ({ onBack }: LeaderboardScreenProps) => {
   const { address } = useAccount();
   const { toast } = useToast();
   const [topScores, setTopScores] = useState<TopScore[]>([]);
+  // Today's Daily Mouch board, from the saved ranked runs rather than the chain
+  const [dailyScores, setDailyScores] = useState<Pick<TopScore, 'player' | 'score'>[]>([]);
+  const [board, setBoard] = useState<'all' | 'daily'>('all');
+  const [dailyDate] = useState(dailyKey);
   const [playerStats, setPlayerStats] = useState<PlayerStats | null>(null);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
@@ -37,6 +43,14 @@ const LeaderboardScreen = ({ onBack }: LeaderboardScreenProps) => {
       const scores = await hitService.getTopScores();
       setTopScores(scores);
 
+      // The daily board comes from Supabase rather than the chain; failing to load it leaves the stats alone
+      try {
+        const daily = await getDailyLeaderboard(dailyDate);
+        setDailyScores(daily.map(row => ({ player: row.player, score: String(row.score) })));
+      } catch (error) {
+        console.error("Failed to fetch daily leaderboard:", error);
+      }
+
       // Fetch player stats if wallet is connected
       if (address) {
         const stats = await hitService.getPlayerScore(address);
@@ -72,6 +86,8 @@ const LeaderboardScreen = ({ onBack }: LeaderboardScreenProps) => {
     return `${address.slice(0, 6)}...${address.slice(-4)}`;
   };
 
+  const shownScores = board === 'daily' ? dailyScores : topScores;
+
   const getMedalIcon = (index: number) => {
     switch (index) {
       case 0:
@@ -156,12 +172,28 @@ const LeaderboardScreen = ({ onBack }: LeaderboardScreenProps) => {
 
         {/* Top 10 Leaderboard - Main content */}
         <div className={`bg-card border rounded-lg p-4 ${playerStats ? 'lg:col-span-2' : 'lg:col-span-3'}`}>
+          <div className="flex gap-2 mb-4">
+            <Button
+              onClick={() => setBoard('all')}
+              variant={board === 'all' ? "default" : "outline"}
+              className="font-press-start text-xs"
+            >
+              All Time
+            </Button>
+            <Button
+              onClick={() => setBoard('daily')}
+              variant={board === 'daily' ? "default" : "outline"}
+              className="font-press-start text-xs"
+            >
+              Daily Mouch
+            </Button>
+          </div>
           <h2 className="text-lg font-bold mb-4 flex items-center gap-2">
             <Trophy className="w-4 h-4" />
-            Top 10 Players
+            {board === 'daily' ? `Daily Mouch ${dailyDate}` : 'Top 10 Players'}
           </h2>
           
-          {topScores.length === 0 ? (
+          {shownScores.length === 0 ? (
             <div className="text-center py-8">
               <Target className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
               <p className="text-muted-foreground">No scores recorded yet</p>
@@ -169,7 +201,7 @@ const LeaderboardScreen = ({ onBack }: LeaderboardScreenProps) => {
             </div>
           ) : (
             <div className="space-y-1 max-h-[70vh] overflow-y-auto">
-              {topScores.map((score, index) => (
+              {shownScores.map((score, index) => (
                 <div
                   key={score.player}
                   className={`flex items-center justify-between p-2 rounded-lg border ${
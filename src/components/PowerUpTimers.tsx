@@ -0,0 +1,42 @@
+import { useEffect, useState } from "react";
+import { GameEngine } from "@/game/engine";
+import { getPowerUp } from "@/game/catalog";
+import { EffectTimer } from "@/game/powerUps";
+
+interface PowerUpTimersProps {
+  engine: GameEngine;
+  running: boolean;
+}
+
+// The engine isn't React state, so poll its effects a few times a second
+const POLL_MS = 100;
+
+const PowerUpTimers = ({ engine, running }: PowerUpTimersProps) => {
+  const [effects, setEffects] = useState<EffectTimer[]>([]);
+
+  useEffect(() => {
+    if (!running) {
+      setEffects([]);
+      return;
+    }
+    const interval = setInterval(() => setEffects(engine.activeEffects), POLL_MS);
+    return () => clearInterval(interval);
+  }, [engine, running]);
+
+  if (effects.length === 0) return null;
+
+  return (
+    <div className="flex flex-col items-start gap-1 pointer-events-none">
+      {effects.map(({ effect, remaining }) => {
+        const powerUp = getPowerUp(effect);
+        return (
+          <div key={effect} className="text-sm" style={{ color: powerUp?.powerUp.color }}>
+            {powerUp?.powerUp.icon} {powerUp?.name ?? effect}: {remaining.toFixed(1)}s
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default PowerUpTimers;
@@ -0,0 +1,49 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { GameEngine } from "@/game/engine";
+import { Difficulty, Tuning, presetTuning, tunedDifficulty } from "@/game/difficulty";
+
+interface PracticePanelProps {
+  engine: GameEngine;
+  // The preset the sliders start from and reset to
+  difficulty: Difficulty;
+}
+
+const SLIDERS: { key: keyof Tuning; label: string; min: number; max: number; step: number }[] = [
+  { key: 'density', label: 'Spawn rate', min: 0.2, max: 3, step: 0.1 },
+  { key: 'speed', label: 'Speed', min: 0.5, max: 6, step: 0.1 },
+  { key: 'hitRadius', label: 'Hit radius', min: 10, max: 80, step: 1 },
+];
+
+// Practice-mode debug panel: live sliders for spawn density, base flight speed and hit radius
+const PracticePanel = ({ engine, difficulty }: PracticePanelProps) => {
+  const [tuning, setTuning] = useState(() => presetTuning(difficulty));
+
+  const apply = (next: Tuning) => {
+    setTuning(next);
+    engine.tune(tunedDifficulty(difficulty, next));
+  };
+
+  return (
+    <div className="bg-black/60 text-white rounded p-3 flex flex-col gap-2 text-xs w-56">
+      {SLIDERS.map(({ key, label, min, max, step }) => (
+        <label key={key} className="flex flex-col gap-1">
+          {label}: {tuning[key].toFixed(step < 1 ? 1 : 0)}
+          <input
+            type="range"
+            min={min}
+            max={max}
+            step={step}
+            value={tuning[key]}
+            onChange={e => apply({ ...tuning, [key]: Number(e.target.value) })}
+          />
+        </label>
+      ))}
+      <Button onClick={() => apply(presetTuning(difficulty))} variant="outline" className="font-press-start text-xs text-black">
+        Reset
+      </Button>
+    </div>
+  );
+};
+
+export default PracticePanel;
@@ -0,0 +1,267 @@
+import { FlightBehaviour } from "./catalog";
+import { TICK_RATE } from "./timing";
+import { BirdPosition } from "./types";
+
+type FlightType = FlightBehaviour['type'];
+// Optional `type` matches how zod infers the union with strictNullChecks off
+type FlightOf<T extends FlightType> = Extract<FlightBehaviour, { type?: T }>;
+
+// What a behaviour may look at besides its own bird
+export interface FlightContext {
+  width: number;
+  height: number;
+  // Local bat positions, empty when the simulation must not depend on them (multiplayer)
+  cursors: { x: number; y: number }[];
+}
+
+/**
+ * A movement model for one flight type. init() runs once at spawn, after the
+ * engine has placed the bird on its entry edge with a course towards the far
+ * side, and may change any of that. move() runs every tick the bird is flying
+ * and returns its next position; it may update velocity and phase on the way.
+ * Only bird.random may be used for randomness so clients stay in lockstep.
+ */
+export interface Behaviour<T extends FlightType> {
+  init?(bird: BirdPosition, flight: FlightOf<T>, world: FlightContext): void;
+  move(bird: BirdPosition, flight: FlightOf<T>, world: FlightContext): { x: number; y: number };
+}
+
+function aimAt(bird: BirdPosition, x: number, y: number, speed: number, offCourse = 0) {
+  const angle = Math.atan2(y - bird.y, x - bird.x) + offCourse;
+  bird.velocityX = Math.cos(angle) * speed;
+  bird.velocityY = Math.sin(angle) * speed;
+  if (bird.velocityX !== 0) bird.direction = bird.velocityX > 0 ? 'right' : 'left';
+}
+
+// For behaviours that re-aim mid-flight: put the target far past the exit so they never turn back
+function extendTarget(bird: BirdPosition) {
+  const dx = bird.targetX - bird.x;
+  const dy = bird.targetY - bird.y;
+  const distance = Math.sqrt(dx * dx + dy * dy) || 1;
+  bird.targetX = bird.x + (dx / distance) * 10000;
+  bird.targetY = bird.y + (dy / distance) * 10000;
+}
+
+// Path behaviours describe the position at tick t from the spawn point; the bird
+// moves by the path's change over the last tick so nudges (evasion) are kept
+function followPath(bird: BirdPosition, pathAt: (t: number) => { x: number; y: number }) {
+  const from = pathAt(bird.phaseTicks - 1);
+  const to = pathAt(bird.phaseTicks);
+  const dx = to.x - from.x;
+  if (Math.abs(dx) > 0.01) bird.direction = dx > 0 ? 'right' : 'left';
+  return { x: bird.x + dx, y: bird.y + to.y - from.y };
+}
+
+// Point on the straight course t ticks after spawn
+function courseAt(bird: BirdPosition, t: number) {
+  return { x: bird.initialX + bird.velocityX * t, y: bird.initialY + bird.velocityY * t };
+}
+
+const straight: Behaviour<'straight'> = {
+  move: bird => ({ x: bird.x + bird.velocityX, y: bird.y + bird.velocityY }),
+};
+
+// A sine on top of the course, by the distance flown across since spawn
+const wave: Behaviour<'wave'> = {
+  move: (bird, flight) => followPath(bird, t => {
+    const base = courseAt(bird, t);
+    return { x: base.x, y: base.y + Math.sin((base.x - bird.initialX) * flight.frequency) * flight.amplitude };
+  }),
+};
+
+const jitter: Behaviour<'jitter'> = {
+  move: (bird, flight) => ({
+    x: bird.x + bird.velocityX + (bird.random() - 0.5) * flight.amount,
+    y: bird.y + bird.velocityY,
+  }),
+};
+
+const crawl: Behaviour<'crawl'> = {
+  init(bird, flight, world) {
+    // Crawlers enter from a side whatever edge they were given, feet on the bottom edge
+    const fromLeft = bird.x < 0 || (bird.x <= world.width && bird.random() < 0.5);
+    const margin = 100;
+    bird.x = bird.initialX = fromLeft ? -margin : world.width + margin;
+    bird.targetX = fromLeft ? world.width + margin : -margin;
+    bird.y = bird.initialY = bird.targetY = world.height - 24;
+    bird.speed *= flight.speed;
+    aimAt(bird, bird.targetX, bird.targetY, bird.speed);
+  },
+  // Scuttling bob
+  move: bird => ({ x: bird.x + bird.velocityX, y: bird.targetY + Math.sin(bird.x * 0.2) * 1.5 }),
+};
+
+const descend: Behaviour<'descend'> = {
+  init(bird, flight, world) {
+    // Drop straight down from the top to somewhere in the middle of the field
+    bird.x = bird.initialX = bird.targetX = Math.max(60, Math.min(world.width - 60, bird.x));
+    bird.y = bird.initialY = -100;
+    bird.targetY = world.height * (0.3 + bird.random() * 0.4);
+    bird.speed = flight.speed;
+    bird.velocityX = 0;
+    bird.velocityY = flight.speed;
+  },
+  move(bird, flight) {
+    // Phases: 0 dropping, 1 hanging, 2 climbing back up
+    if (bird.phase === 0 && bird.y >= bird.targetY) {
+      bird.phase = 1;
+      bird.phaseTicks = 0;
+      bird.velocityY = 0;
+    } else if (bird.phase === 1 && bird.phaseTicks >= flight.hang * TICK_RATE) {
+      bird.phase = 2;
+      bird.phaseTicks = 0;
+      bird.velocityY = -bird.speed;
+    }
+    return { x: bird.x, y: bird.y + bird.velocityY };
+  },
+};
+
+const dart: Behaviour<'dart'> = {
+  init(bird, flight) {
+    extendTarget(bird);
+    bird.speed *= flight.speed;
+    aimAt(bird, bird.targetX, bird.targetY, bird.speed);
+  },
+  move(bird, flight) {
+    if (bird.phaseTicks >= flight.interval * TICK_RATE) {
+      bird.phaseTicks = 0;
+      const offCourse = (bird.random() - 0.5) * 2 * flight.spread * (Math.PI / 180);
+      aimAt(bird, bird.targetX, bird.targetY, bird.speed * (0.6 + bird.random() * 0.8), offCourse);
+    }
+    return { x: bird.x + bird.velocityX, y: bird.y + bird.velocityY };
+  },
+};
+
+const hoverZip: Behaviour<'hoverZip'> = {
+  init(bird, flight) {
+    // Enter on a zip, then start hovering
+    extendTarget(bird);
+    bird.phase = 1;
+    aimAt(bird, bird.targetX, bird.targetY, bird.speed * flight.zipSpeed);
+  },
+  move(bird, flight) {
+    // Phases: 1 zipping, 0 hovering
+    if (bird.phase === 1 && bird.phaseTicks >= flight.zip * TICK_RATE) {
+      bird.phase = 0;
+      bird.phaseTicks = 0;
+      bird.velocityX = 0;
+      bird.velocityY = 0;
+    } else if (bird.phase === 0 && bird.phaseTicks >= flight.hover * TICK_RATE) {
+      bird.phase = 1;
+      bird.phaseTicks = 0;
+      aimAt(bird, bird.targetX, bird.targetY, bird.speed * flight.zipSpeed);
+    }
+    if (bird.phase === 0) {
+      return { x: bird.x + (bird.random() - 0.5) * 2, y: bird.y + (bird.random() - 0.5) * 2 };
+    }
+    return { x: bird.x + bird.velocityX, y: bird.y + bird.velocityY };
+  },
+};
+
+const bezier: Behaviour<'bezier'> = {
+  init(bird, flight) {
+    // Control point off to a random side of the course, `arc` path-lengths out
+    const dx = bird.targetX - bird.x;
+    const dy = bird.targetY - bird.y;
+    const side = bird.random() < 0.5 ? -1 : 1;
+    bird.controlX = bird.x + dx / 2 - dy * flight.arc * side;
+    bird.controlY = bird.y + dy / 2 + dx * flight.arc * side;
+  },
+  move: bird => followPath(bird, t => {
+    const dx = bird.targetX - bird.initialX;
+    const dy = bird.targetY - bird.initialY;
+    const u = (t * bird.speed) / (Math.sqrt(dx * dx + dy * dy) || 1);
+    const a = (1 - u) * (1 - u), b = 2 * (1 - u) * u, c = u * u;
+    return {
+      x: a * bird.initialX + b * bird.controlX + c * bird.targetX,
+      y: a * bird.initialY + b * bird.controlY + c * bird.targetY,
+    };
+  }),
+};
+
+const zigzag: Behaviour<'zigzag'> = {
+  move: (bird, flight) => followPath(bird, t => {
+    const base = courseAt(bird, t);
+    const speed = Math.sqrt(bird.velocityX * bird.velocityX + bird.velocityY * bird.velocityY) || 1;
+    // Triangle wave in [-1, 1] starting at 0, across the course
+    const cycle = t / (flight.period * TICK_RATE) + 0.25;
+    const offset = (2 * Math.abs(2 * (cycle - Math.floor(cycle)) - 1) - 1) * flight.amplitude;
+    return { x: base.x - (bird.velocityY / speed) * offset, y: base.y + (bird.velocityX / speed) * offset };
+  }),
+};
+
+const circle: Behaviour<'circle'> = {
+  init(bird) {
+    // phase holds the spin direction
+    bird.phase = bird.random() < 0.5 ? -1 : 1;
+  },
+  move: (bird, flight) => followPath(bird, t => {
+    const base = courseAt(bird, t);
+    const angle = ((2 * Math.PI * t) / (flight.period * TICK_RATE)) * bird.phase;
+    return { x: base.x + (Math.cos(angle) - 1) * flight.radius, y: base.y + Math.sin(angle) * flight.radius };
+  }),
+};
+
+// Next roaming point for a patrolling bird, somewhere inside the field
+function pickWaypoint(bird: BirdPosition, margin: number, world: FlightContext) {
+  bird.targetX = margin + bird.random() * Math.max(0, world.width - 2 * margin);
+  bird.targetY = margin + bird.random() * Math.max(0, world.height - 2 * margin);
+  aimAt(bird, bird.targetX, bird.targetY, bird.speed);
+}
+
+const patrol: Behaviour<'patrol'> = {
+  init(bird, flight, world) {
+    bird.speed *= flight.speed;
+    pickWaypoint(bird, flight.margin, world);
+  },
+  move(bird, flight, world) {
+    const dx = bird.targetX - bird.x;
+    const dy = bird.targetY - bird.y;
+    if (Math.sqrt(dx * dx + dy * dy) <= bird.speed * 2) pickWaypoint(bird, flight.margin, world);
+    return { x: bird.x + bird.velocityX, y: bird.y + bird.velocityY };
+  },
+};
+
+export const behaviours: { [T in FlightType]: Behaviour<T> } = {
+  straight,
+  wave,
+  jitter,
+  crawl,
+  descend,
+  dart,
+  hoverZip,
+  bezier,
+  zigzag,
+  circle,
+  patrol,
+};
+
+// Indexing the mapped type with a generic key keeps the behaviour paired with its flight type
+function behaviourFor<T extends FlightType>(type: T): Behaviour<T> {
+  return behaviours[type];
+}
+
+/** Let the bird's behaviour adjust its spawn position, course and state. */
+export function initFlight(bird: BirdPosition, world: FlightContext) {
+  behaviourFor(bird.bird.flight.type).init?.(bird, bird.bird.flight, world);
+}
+
+/** The bird's next position: its behaviour's move, pushed away from the bat if it evades. */
+export function moveFlight(bird: BirdPosition, world: FlightContext) {
+  bird.phaseTicks++;
+  const next = behaviourFor(bird.bird.flight.type).move(bird, bird.bird.flight, world);
+  const evade = bird.bird.evade;
+  if (evade) {
+    for (const cursor of world.cursors) {
+      const dx = next.x - cursor.x;
+      const dy = next.y - cursor.y;
+      const distance = Math.sqrt(dx * dx + dy * dy);
+      if (distance > 0 && distance < evade.radius) {
+        const push = evade.strength * (1 - distance / evade.radius);
+        next.x += (dx / distance) * push;
+        next.y += (dy / distance) * push;
+      }
+    }
+  }
+  return next;
+}
@@ -0,0 +1,147 @@
+import { z } from "zod";
+import manifest from "./insects.json";
+
+const spriteSheetSchema = z.object({
+  src: z.string(),
+  frameWidth: z.number().positive(),
+  frameHeight: z.number().positive(),
+  totalFrames: z.number().int().positive(),
+  rows: z.number().int().positive(),
+  columns: z.number().int().positive(),
+  // Seconds for one full loop of the animation
+  duration: z.number().positive(),
+  // Multiplier on the base render size, for sheets with heavy transparent padding
+  scale: z.number().positive().default(1),
+  // Which way the art faces; it is mirrored when the insect travels the other way
+  facing: z.enum(["left", "right"]).default("left"),
+  // Degrees to turn the art so it faces `facing` (for top-down photos)
+  rotation: z.number().default(0),
+});
+
+export const flightSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("straight") }),
+  // Sine wave across the flight path; frequency per world unit, amplitude in world units
+  z.object({ type: z.literal("wave"), frequency: z.number(), amplitude: z.number() }),
+  // Random sideways twitch each tick, up to `amount` world units
+  z.object({ type: z.literal("jitter"), amount: z.number().nonnegative() }),
+  // Walks along the bottom edge at `speed` times the normal flight speed
+  z.object({ type: z.literal("crawl"), speed: z.number().positive() }),
+  // Drops from the top on a thread at `speed` units per tick, hangs for `hang` seconds, then climbs back
+  z.object({ type: z.literal("descend"), speed: z.number().positive(), hang: z.number().nonnegative() }),
+  // Changes heading every `interval` seconds, up to `spread` degrees off its course
+  z.object({ type: z.literal("dart"), interval: z.number().positive(), spread: z.number().nonnegative(), speed: z.number().positive() }),
+  // Hovers in place for `hover` seconds, then zips along its course for `zip` seconds at `zipSpeed` times the flight speed
+  z.object({ type: z.literal("hoverZip"), hover: z.number().nonnegative(), zip: z.number().positive(), zipSpeed: z.number().positive() }),
+  // Quadratic arc bowing `arc` path-lengths to one side of the straight course
+  z.object({ type: z.literal("bezier"), arc: z.number() }),
+  // Sharp side-to-side zig-zag `amplitude` units off the course, one full swing every `period` seconds
+  z.object({ type: z.literal("zigzag"), amplitude: z.number().nonnegative(), period: z.number().positive() }),
+  // Loops of `radius` units while travelling, one every `period` seconds
+  z.object({ type: z.literal("circle"), radius: z.number().nonnegative(), period: z.number().positive() }),
+  // Roams between random points at least `margin` units inside the field at `speed` times the flight speed, never leaving
+  z.object({ type: z.literal("patrol"), margin: z.number().nonnegative(), speed: z.number().positive() }),
+]);
+
+const powerUpSchema = z.object({
+  effect: z.enum(["slowMotion", "freeze", "doublePoints", "magnet", "extraTime"]),
+  // Seconds the effect lasts; for extraTime, seconds added to the clock
+  duration: z.number().positive(),
+  // Drawn as a glowing badge instead of a sprite
+  icon: z.string().min(1),
+  color: z.string(),
+});
+
+const bossSchema = z.object({
+  // Hits needed to bring it down
+  health: z.number().int().min(2),
+  // Seconds it shrugs off further hits after each one
+  stun: z.number().nonnegative(),
+  // Seconds before the end of the round that it arrives
+  arrivesAt: z.number().positive(),
+  // Extra hit radius in world units, for its bigger body
+  reach: z.number().nonnegative().default(0),
+  // Insect id it summons, `minionCount` at a time every `minionInterval` seconds
+  minion: z.string(),
+  minionInterval: z.number().positive(),
+  minionCount: z.number().int().positive(),
+});
+
+export const insectSchema = z.object({
+  id: z.string().regex(/^[a-z0-9-]+$/),
+  name: z.string().min(1),
+  // Card art shown on the select screen
+  image: z.string().optional(),
+  // Negative for friendly species, which cost points when swatted
+  points: z.number().int(),
+  rarity: z.enum(["common", "uncommon", "rare", "legendary", "friendly", "boss"]),
+  // Relative chance of being picked for a spawn
+  spawnWeight: z.number().nonnegative(),
+  // How many times it should appear in a 60 second round
+  spawnRate: z.object({ min: z.number().int().nonnegative(), max: z.number().int().nonnegative() })
+    .refine(rate => rate.min <= rate.max, "spawnRate.min must not exceed spawnRate.max"),
+  sprite: spriteSheetSchema.optional(),
+  flight: flightSchema,
+  // Pushed up to `strength` units per tick away from the bat when it comes within `radius`
+  evade: z.object({ radius: z.number().positive(), strength: z.number().positive() }).optional(),
+  // Whether it can appear in flocks (which fly as boids instead of their own behaviour)
+  flocks: z.boolean().default(true),
+  // Seconds taken off the clock when swatted (friendly species)
+  timePenalty: z.number().nonnegative().optional(),
+  sounds: z.object({ hit: z.string() }),
+  // Catching it triggers a timed effect instead of scoring like an insect
+  powerUp: powerUpSchema.optional(),
+  // Appears once near the end of the round and takes several hits; `points` is the bonus for finishing it
+  boss: bossSchema.optional(),
+}).refine(entry => entry.powerUp || (entry.sprite && entry.image), "insects need a sprite and an image unless they are power-ups");
+
+const catalogSchema = z.array(insectSchema).min(1)
+  .refine(list => new Set(list.map(i => i.id)).size === list.length, "insect ids must be unique")
+  .refine(list => new Set(list.map(i => i.name)).size === list.length, "insect names must be unique")
+  .refine(list => list.every(i => !i.boss || list.some(m => m.id === i.boss.minion && !m.boss)), "boss minions must be non-boss insect ids");
+
+export type Insect = z.infer<typeof insectSchema>;
+export type FlightBehaviour = z.infer<typeof flightSchema>;
+export type SpriteSheet = z.infer<typeof spriteSheetSchema>;
+export type PowerUp = z.infer<typeof powerUpSchema>;
+export type PowerUpEffect = PowerUp['effect'];
+export type Boss = z.infer<typeof bossSchema>;
+
+/**
+ * The insect registry, loaded from insects.json and validated at startup so a
+ * bad manifest fails loudly instead of spawning broken insects. Adding an
+ * insect means adding an entry there (plus its art), nothing else.
+ */
+export const insects: Insect[] = catalogSchema.parse(manifest);
+
+const insectsByName = new Map(insects.map(insect => [insect.name, insect]));
+const insectsById = new Map(insects.map(insect => [insect.id, insect]));
+
+export function getInsect(name: string) {
+  return insectsByName.get(name);
+}
+
+export function getInsectById(id: string) {
+  return insectsById.get(id);
+}
+
+/** Friendly species cost points (and maybe time) instead of scoring them. */
+export function isPenalty(insect: Insect) {
+  return insect.points < 0;
+}
+
+/** The catalog entry that grants an effect, for its name and badge. */
+export function getPowerUp(effect: PowerUpEffect) {
+  return insects.find(insect => insect.powerUp?.effect === effect);
+}
+
+/** Weighted pick by spawnWeight, optionally among a subset; `random` is the engine's seeded stream. */
+export function getRandomInsect(random: () => number = Math.random, filter?: (insect: Insect) => boolean): Insect {
+  const pool = filter ? insects.filter(filter) : insects;
+  const total = pool.reduce((sum, insect) => sum + insect.spawnWeight, 0);
+  let roll = random() * total;
+  for (const insect of pool) {
+    roll -= insect.spawnWeight;
+    if (roll < 0) return insect;
+  }
+  return pool[pool.length - 1];
+}
@@ -0,0 +1,59 @@
+import { CatchClaim } from "./types";
+
+// How long the host holds a bird's first claim open for near-simultaneous swings
+export const CLAIM_WINDOW_MS = 150;
+
+/** What a claim contests: the bird, and for a boss which of its hits. */
+export function claimKey(birdId: string, health = 1) {
+  return health > 1 ? `${birdId}:${health}` : birdId;
+}
+
+// Earlier swing wins; the wall clock and then the user id break ties so every host picks the same winner
+function compareClaims(a: CatchClaim, b: CatchClaim) {
+  return a.tick - b.tick || a.timestamp - b.timestamp || a.userId.localeCompare(b.userId);
+}
+
+/**
+ * First-hit-wins arbitration for contested birds, run by the multiplayer host.
+ * Claims for the same bird are collected for a short window after the first
+ * one arrives; the earliest swing (by simulation tick) is granted and every
+ * later claim for that bird is dropped. Each hit on a boss is contested on
+ * its own (see claimKey).
+ */
+export class ClaimArbiter {
+  private pending = new Map<string, { openedAt: number; claims: CatchClaim[] }>();
+  private granted = new Set<string>();
+
+  constructor(private windowMs = CLAIM_WINDOW_MS) {}
+
+  /** Queue a claim; returns false if the bird (or boss hit) has already been granted. */
+  submit(claim: CatchClaim, now: number) {
+    const key = claimKey(claim.birdId, claim.health);
+    if (this.granted.has(key)) return false;
+    const entry = this.pending.get(key);
+    if (entry) {
+      // A player swinging twice at the same bird only needs one claim
+      if (!entry.claims.some(c => c.userId === claim.userId)) entry.claims.push(claim);
+    } else {
+      this.pending.set(key, { openedAt: now, claims: [claim] });
+    }
+    return true;
+  }
+
+  /** Close every window that has elapsed and return the winning claims. */
+  resolve(now: number) {
+    const grants: CatchClaim[] = [];
+    this.pending.forEach((entry, key) => {
+      if (now - entry.openedAt < this.windowMs) return;
+      grants.push([...entry.claims].sort(compareClaims)[0]);
+      this.granted.add(key);
+      this.pending.delete(key);
+    });
+    return grants;
+  }
+
+  reset() {
+    this.pending.clear();
+    this.granted.clear();
+  }
+}
@@ -0,0 +1,52 @@
+// Catches further apart than this (ms) start a new streak
+export const COMBO_WINDOW_MS = 2000;
+// Streak length per multiplier step, and the cap
+const CATCHES_PER_STEP = 3;
+const MAX_MULTIPLIER = 5;
+// Extra multiplier per additional insect caught with the same swing
+const MULTI_KILL_BONUS = 0.5;
+
+/** Streak multiplier: x1 for the first 2 catches, then one step up every 3, up to x5. */
+export function comboMultiplier(streak: number) {
+  return Math.min(MAX_MULTIPLIER, 1 + Math.floor(streak / CATCHES_PER_STEP));
+}
+
+/**
+ * Per-player combo state. Every swing is reported: a swing that catches
+ * nothing, or swats a friendly insect, breaks the streak; catches within
+ * COMBO_WINDOW_MS of the previous one extend it, and a swing that catches
+ * several insects at once earns a multi-kill bonus on top of the streak
+ * multiplier.
+ */
+export class ComboTracker {
+  streak = 0;
+  private lastCatchAt = -Infinity;
+
+  constructor(private windowMs = COMBO_WINDOW_MS) {}
+
+  get multiplier() {
+    return comboMultiplier(this.streak);
+  }
+
+  /** When the current streak lapses (ms), or null with no streak. */
+  get expiresAt() {
+    return this.streak > 0 ? this.lastCatchAt + this.windowMs : null;
+  }
+
+  /** Report a swing at `now` (ms) that caught `catches` insects and swatted `fouls` friendly ones; returns the multiplier each catch scores. */
+  swing(now: number, catches: number, fouls = 0) {
+    if (catches === 0 || fouls > 0) {
+      this.streak = 0;
+      return 1;
+    }
+    if (now - this.lastCatchAt > this.windowMs) this.streak = 0;
+    this.streak += catches;
+    this.lastCatchAt = now;
+    return this.multiplier + MULTI_KILL_BONUS * (catches - 1);
+  }
+
+  reset() {
+    this.streak = 0;
+    this.lastCatchAt = -Infinity;
+  }
+}
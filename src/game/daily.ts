@@ -0,0 +1,25 @@
+import { DifficultyId } from "./difficulty";
+import { deriveSeed } from "./random";
+
+// Daily Mouch: one seeded field per calendar day, the same for everyone
+
+// Everyone plays the daily on the same preset so scores compare
+export const DAILY_DIFFICULTY: DifficultyId = 'normal';
+
+/** The UTC calendar day as YYYY-MM-DD, so the daily rolls over at the same moment everywhere. */
+export function dailyKey(date = new Date()) {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Seed for a day's field: FNV-1a over the key, mixed through deriveSeed.
+ * Depends on nothing but the key, so any past run can be replayed and checked.
+ */
+export function dailySeed(key: string) {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < key.length; i++) {
+    hash ^= key.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return deriveSeed(hash >>> 0, 0);
+}
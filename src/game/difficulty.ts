@@ -0,0 +1,101 @@
+export type DifficultyId = 'easy' | 'normal' | 'hard' | 'insane';
+
+// A value that moves from `start` to `end` over the round; `ramp` > 1 holds
+// back the change until late in the round, < 1 front-loads it
+export interface Curve {
+  start: number;
+  end: number;
+  ramp?: number;
+}
+
+export interface Difficulty {
+  id: DifficultyId;
+  label: string;
+  /** Round length in seconds */
+  roundDuration: number;
+  /** Base flight speed in world units per tick, before each insect's random extra of up to `speedVariance` */
+  speed: Curve;
+  speedVariance: number;
+  /** Multiplier on every insect's spawn quota */
+  density: number;
+  /** Bat hit radius in world units */
+  hitRadius: Curve;
+}
+
+export const difficulties: Record<DifficultyId, Difficulty> = {
+  easy: {
+    id: 'easy',
+    label: 'Easy',
+    roundDuration: 75,
+    speed: { start: 1.2, end: 2.2 },
+    speedVariance: 0.8,
+    density: 0.8,
+    hitRadius: { start: 40, end: 40 },
+  },
+  // The original tuning
+  normal: {
+    id: 'normal',
+    label: 'Normal',
+    roundDuration: 60,
+    speed: { start: 1.5, end: 3 },
+    speedVariance: 1,
+    density: 1,
+    hitRadius: { start: 32, end: 32 },
+  },
+  hard: {
+    id: 'hard',
+    label: 'Hard',
+    roundDuration: 60,
+    speed: { start: 2, end: 4 },
+    speedVariance: 1.2,
+    density: 1.3,
+    hitRadius: { start: 30, end: 26 },
+  },
+  insane: {
+    id: 'insane',
+    label: 'Insane',
+    roundDuration: 45,
+    speed: { start: 2.8, end: 5.5, ramp: 0.7 },
+    speedVariance: 1.5,
+    density: 1.8,
+    hitRadius: { start: 26, end: 20, ramp: 0.7 },
+  },
+};
+
+export const DEFAULT_DIFFICULTY: DifficultyId = 'normal';
+
+export function getDifficulty(id: string | null | undefined): Difficulty {
+  return difficulties[id as DifficultyId] ?? difficulties[DEFAULT_DIFFICULTY];
+}
+
+/** Value of a curve at `progress` (0 at the start of the round, 1 at the end). */
+export function curveAt(curve: Curve, progress: number) {
+  const t = Math.pow(Math.min(1, Math.max(0, progress)), curve.ramp ?? 1);
+  return curve.start + (curve.end - curve.start) * t;
+}
+
+/** Practice-mode overrides: spawn density, base flight speed and hit radius, held fixed. */
+export interface Tuning {
+  density: number;
+  speed: number;
+  hitRadius: number;
+}
+
+/** A preset's values at the start of the round, where practice tuning begins. */
+export function presetTuning(difficulty: Difficulty): Tuning {
+  return {
+    density: difficulty.density,
+    speed: curveAt(difficulty.speed, 0),
+    hitRadius: curveAt(difficulty.hitRadius, 0),
+  };
+}
+
+/** A copy of the preset with flat curves at the tuned values, so nothing ramps during practice. */
+export function tunedDifficulty(difficulty: Difficulty, { density, speed, hitRadius }: Tuning): Difficulty {
+  return {
+    ...difficulty,
+    density,
+    speed: { start: speed, end: speed },
+    hitRadius: { start: hitRadius, end: hitRadius },
+  };
+}
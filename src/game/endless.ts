@@ -0,0 +1,10 @@
+// Endless survival mode: waves of spawns that keep getting busier and faster
+// until the player has let too many insects escape
+
+// Escapes allowed before the run ends
+export const ENDLESS_LIVES = 10;
+// Length of one wave; each wave has its own spawn schedule
+export const ENDLESS_WAVE_SECONDS = 30;
+// Per wave after the first: extra flight speed and extra spawn density
+export const ENDLESS_SPEED_STEP = 0.06;
+export const ENDLESS_DENSITY_STEP = 0.15;
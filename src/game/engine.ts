@@ -0,0 +1,751 @@
+import { SpatialHash } from "./spatialHash";
+import { Insect, PowerUpEffect, getInsectById, getRandomInsect, insects as catalog } from "./catalog";
+import { FlightContext, initFlight, moveFlight } from "./behaviours";
+import { Boid, stepFlock } from "./flocking";
+import { SpawnEvent, createSpawnSchedule } from "./spawnDirector";
+import { DEFAULT_DIFFICULTY, Difficulty, curveAt, getDifficulty } from "./difficulty";
+import { createRng, deriveSeed, randomSeed } from "./random";
+import { EffectTimers, MAGNET_RADIUS_SCALE } from "./powerUps";
+import { TICK_RATE, TICK_SECONDS } from "./timing";
+import { ENDLESS_DENSITY_STEP, ENDLESS_SPEED_STEP, ENDLESS_WAVE_SECONDS } from "./endless";
+import { Bat, BirdPosition, CursorAnimation, FloatingPoint, SpawnOptions, WorldInput } from "./types";
+
+export interface GameEngineOptions {
+  seed?: number;
+  difficulty?: Difficulty;
+  // Overrides the difficulty's round length
+  roundDuration?: number;
+  // Endless survival: spawns come in ever harder waves instead of one round's schedule
+  endless?: boolean;
+  // The insects the schedule draws from, e.g. a campaign level's mix; defaults to the whole catalog
+  insects?: Insect[];
+  // Hand-authored spawn events to play instead of the generated schedule
+  script?: SpawnEvent[] | null;
+  // Whether endless waves get faster and busier; off for practice, which holds its tuned values
+  waveRamp?: boolean;
+}
+
+export { TICK_RATE, TICK_SECONDS, getTargetTick, getTickProgress } from "./timing";
+
+// The world is simulated in a fixed 896x504 space (max-w-4xl aspect-[16/9]) so
+// every client sees the same field whatever its window size; views scale it
+export const WORLD_WIDTH = 896;
+export const WORLD_HEIGHT = 504;
+
+// Time penalties never leave a round with less than this many seconds
+const MIN_TIME_LEFT = 1;
+
+function createBat(color: string | null): Bat {
+  return { x: 0, y: 0, anim: { isHitting: false, hitFrame: 0, hitTimer: 0 }, color };
+}
+
+/**
+ * Framework-agnostic world simulation shared by the single and multiplayer screens.
+ * It owns the birds, the object pool, the spatial hash, floating points and the
+ * bat animation; the screens feed it the view size, the cursor and swings (in
+ * world units, see toWorld) and call step() once per tick while a round is running.
+ *
+ * All randomness comes from seeded streams: one for the spawn schedule, one
+ * for spawn positions and one per bird for its flight, so two engines reset
+ * with the same seed and stepped with the same dt produce the same field even
+ * if their players catch different birds.
+ */
+export class GameEngine {
+  birds: BirdPosition[] = [];
+  floatingPoints: FloatingPoint[] = [];
+  /** Every bat on the field; the first follows the mouse or the primary hand */
+  bats: Bat[] = [createBat(null)];
+  readonly width = WORLD_WIDTH;
+  readonly height = WORLD_HEIGHT;
+  /** CSS pixels per world unit in the current view */
+  viewScale = 1;
+  /** Simulated seconds since the last reset */
+  time = 0;
+  /** Number of step() calls since the last reset */
+  tick = 0;
+  seed: number;
+  /** Speed, density and hit radius curves and the default round length */
+  difficulty: Difficulty;
+  roundDuration: number;
+  /** Seconds power-ups added to this round, less any time penalties */
+  extraTime = 0;
+  /** Insects the spawn schedule (and the boss phase) draws from; takes effect from the next reset() */
+  insects: Insect[];
+  /** Authored spawn events replacing the generated schedule; takes effect from the next reset() */
+  script: SpawnEvent[] | null;
+  /** 0 at the start of a round, 1 at the end; drives flight speed */
+  roundProgress = 0;
+  /** When false, step() only moves what is already on screen; scheduled spawns due meanwhile are skipped */
+  spawning = true;
+  /** This round's spawns from the spawn director, in order; replayed by step() */
+  spawnSchedule: SpawnEvent[] = [];
+  /**
+   * Whether insects may react to the local cursor (evasion). Lockstep sessions
+   * turn this off: each client's cursor is its own, so reacting to it would
+   * make the clients' fields drift apart.
+   */
+  cursorSteering = true;
+  /** Endless mode; the round length then only sets how long the difficulty curves take to ramp */
+  readonly endless: boolean;
+  readonly waveRamp: boolean;
+  /** Endless wave, from 1 */
+  wave = 1;
+  /** Scoring insects that flew off the field uncaught since the last reset */
+  escapes = 0;
+
+  private pool: BirdPosition[] = [];
+  private spatialHash = new SpatialHash();
+  private pendingSpawns: Array<{ at: number; bird: Insect; options: SpawnOptions }> = [];
+  private nextScheduled = 0;
+  private nextId = 0;
+  private nextPointId = 0;
+  // Birds caught this round; one spawned after its catch (a peer ahead in the timeline, or a replay) comes in falling
+  private caughtIds = new Set<string>();
+  // Inputs added this round, applied on their ticks and again by replays
+  private inputs: WorldInput[] = [];
+  // Boids per flock id; they fly on for their flock even after their bird is caught
+  private flocks = new Map<number, Boid[]>();
+  private nextFlockId = 0;
+  private random: () => number;
+  private effects = new EffectTimers();
+  // Flight progress owed to flying insects; slow motion and freeze add less than a tick per step
+  private flightClock = 0;
+  // The boss phase: whether the boss has arrived this round, and its minion waves
+  private bossArrived = false;
+  private bossWaves: { bossId: string; boss: BirdPosition; nextAt: number } | null = null;
+
+  constructor({ seed = randomSeed(), difficulty = getDifficulty(DEFAULT_DIFFICULTY), roundDuration = difficulty.roundDuration, endless = false, insects = catalog, script = null, waveRamp = true }: GameEngineOptions = {}) {
+    this.seed = seed;
+    this.random = createRng(seed);
+    this.difficulty = difficulty;
+    this.roundDuration = roundDuration;
+    this.endless = endless;
+    this.waveRamp = waveRamp;
+    this.insects = insects;
+    this.script = script;
+    this.spawnSchedule = this.createSchedule();
+  }
+
+  resize(viewWidth: number, viewHeight: number) {
+    // Use the smaller dimension to maintain proportions
+    const scale = Math.min(viewWidth / WORLD_WIDTH, viewHeight / WORLD_HEIGHT);
+    this.viewScale = scale > 0 ? scale : 1;
+  }
+
+  toWorld(viewX: number, viewY: number) {
+    return { x: viewX / this.viewScale, y: viewY / this.viewScale };
+  }
+
+  // Size in world units that keeps at least 50% of the base size on screen in small views
+  getScaledSize(baseSize: number) {
+    return Math.max(baseSize, (baseSize * 0.5) / this.viewScale);
+  }
+
+  get hitRadius() {
+    const radius = this.getScaledSize(curveAt(this.difficulty.hitRadius, this.roundProgress));
+    return this.isEffectActive('magnet') ? radius * MAGNET_RADIUS_SCALE : radius;
+  }
+
+  // Sized for the largest radius of the round (magnet included) so birds never need re-bucketing
+  private get cellSize() {
+    const { start, end } = this.difficulty.hitRadius;
+    return Math.max(1, this.getScaledSize(Math.max(start, end)) * MAGNET_RADIUS_SCALE * 2);
+  }
+
+  /** Start a power-up effect for `duration` seconds from now; lockstep clients add an input instead (see addInput). */
+  activateEffect(effect: PowerUpEffect, duration: number) {
+    this.effects.activate(effect, duration, this.time);
+  }
+
+  /**
+   * Queue a change to the field for its tick. Lockstep clients get the same
+   * inputs from the host, but not always before they have simulated that
+   * tick: one that arrives late rewinds the world and replays it back to the
+   * current tick with the input in place, so every field still ends up the same.
+   */
+  addInput(input: WorldInput) {
+    this.inputs.push(input);
+    if (input.tick > this.tick) return;
+    const tick = this.tick;
+    // The bats and floating points are this client's own; the replay leaves them as they are
+    const { bats, floatingPoints } = this;
+    this.bats = bats.map(bat => createBat(bat.color));
+    this.restart();
+    while (this.tick < tick) this.step(TICK_SECONDS);
+    this.bats = bats;
+    this.floatingPoints = floatingPoints;
+  }
+
+  isEffectActive(effect: PowerUpEffect) {
+    return this.effects.isActive(effect, this.time);
+  }
+
+  /** The boss while it is on the field and flying, else null. */
+  get boss() {
+    const waves = this.bossWaves;
+    return waves && this.isLiveBoss(waves.boss, waves.bossId) ? waves.boss : null;
+  }
+
+  /** Simulated time at which the round ends, extra time included. */
+  get roundEndsAt() {
+    return this.roundDuration + this.extraTime;
+  }
+
+  /** Seconds of simulated time left in the round; stops with the simulation while paused. */
+  get timeLeft() {
+    return Math.max(0, this.roundEndsAt - this.time);
+  }
+
+  /**
+   * Add seconds to the round, or take them off when negative. A penalty
+   * leaves at least MIN_TIME_LEFT seconds, but never adds time.
+   */
+  extendRound(seconds: number) {
+    const floor = Math.min(this.extraTime, this.time + MIN_TIME_LEFT - this.roundDuration);
+    this.extraTime = Math.max(floor, this.extraTime + seconds);
+  }
+
+  /** Running effects and their seconds left, for the HUD. */
+  get activeEffects() {
+    return this.effects.active(this.time);
+  }
+
+  /** Switch preset and round length; takes effect for spawns from the next reset(). */
+  setDifficulty(difficulty: Difficulty) {
+    this.difficulty = difficulty;
+    this.roundDuration = difficulty.roundDuration;
+  }
+
+  /**
+   * Swap the difficulty mid-round (practice tuning): speed and hit radius apply
+   * at once, density through a redrawn schedule; the round length is kept.
+   */
+  tune(difficulty: Difficulty) {
+    this.difficulty = difficulty;
+    // The cell size follows the hit radius, so re-bucket what's on screen
+    this.spatialHash.clear();
+    this.birds.forEach(bird => this.spatialHash.insert(bird, this.cellSize));
+    this.spawnSchedule = this.createSchedule();
+    const next = this.spawnSchedule.findIndex(event => event.at > this.time);
+    this.nextScheduled = next < 0 ? this.spawnSchedule.length : next;
+  }
+
+  get cursor() {
+    return this.bats[0];
+  }
+
+  get cursorAnim() {
+    return this.bats[0].anim;
+  }
+
+  /** One bat per colour (null for a plain bat); bats kept keep their position. */
+  setBats(colors: (string | null)[]) {
+    this.bats = colors.map((color, i) => ({ ...(this.bats[i] ?? createBat(color)), color }));
+  }
+
+  setCursor(x: number, y: number, bat = 0) {
+    const target = this.bats[bat];
+    if (!target) return;
+    target.x = x;
+    target.y = y;
+  }
+
+  triggerSwing(bat = 0) {
+    const anim = this.bats[bat]?.anim;
+    if (!anim) return;
+    anim.isHitting = true;
+    anim.hitFrame = 0;
+    anim.hitTimer = 0;
+  }
+
+  /** Advance the world by one tick of `dt` seconds (always TICK_SECONDS from the game loop; movement is tuned per tick). */
+  step(dt: number) {
+    this.time += dt;
+    this.tick++;
+    this.applyInputs();
+    for (let i = 0; i < this.birds.length; i++) {
+      const bird = this.birds[i];
+      bird.prevX = bird.x;
+      bird.prevY = bird.y;
+    }
+    this.roundProgress = Math.min(1, this.time / this.roundDuration);
+    this.bats.forEach(bat => this.updateCursorAnimation(bat.anim, dt));
+    this.effects.expire(this.time);
+    this.updateSpawns();
+    this.flightClock += this.effects.timeScale(this.time);
+    const fly = this.flightClock >= 1;
+    if (fly) {
+      this.flightClock -= 1;
+      this.flocks.forEach((boids, flockId) => this.updateFlock(flockId, boids));
+    }
+    this.updateBirds(fly);
+    this.updateFloatingPoints(dt);
+  }
+
+  spawnBird(birdType: Insect = getRandomInsect(this.random), flockOptions?: SpawnOptions) {
+    const { width, height } = this;
+
+    // Spawn distance capped to prevent going outside
+    const spawnDistance = Math.min(100, Math.min(width, height) * 0.2);
+    const clampY = (value: number) => Math.max(spawnDistance, Math.min(height - spawnDistance, value));
+    const clampX = (value: number) => Math.max(spawnDistance, Math.min(width - spawnDistance, value));
+
+    let x = 0, y = 0, targetX = 0, targetY = 0;
+    const side = flockOptions?.side ?? Math.floor(this.random() * 4);
+
+    switch (side) {
+      case 0: // Left
+        x = -spawnDistance;
+        y = clampY(flockOptions?.y ?? this.random() * height);
+        targetX = width + spawnDistance;
+        targetY = clampY(this.random() * height);
+        break;
+      case 1: // Right
+        x = width + spawnDistance;
+        y = clampY(flockOptions?.y ?? this.random() * height);
+        targetX = -spawnDistance;
+        targetY = clampY(this.random() * height);
+        break;
+      case 2: // Top
+        x = clampX(this.random() * width);
+        y = -spawnDistance;
+        targetX = clampX(this.random() * width);
+        targetY = height + spawnDistance;
+        break;
+      case 3: // Bottom
+        x = clampX(this.random() * width);
+        y = height + spawnDistance;
+        targetX = clampX(this.random() * width);
+        targetY = -spawnDistance;
+        break;
+    }
+
+    const dx = targetX - x;
+    const dy = targetY - y;
+    const distance = Math.sqrt(dx * dx + dy * dy);
+
+    const waveBoost = this.endless && this.waveRamp ? 1 + ENDLESS_SPEED_STEP * (this.wave - 1) : 1;
+    const baseSpeed = curveAt(this.difficulty.speed, this.roundProgress) * waveBoost;
+    const speed = baseSpeed + this.random() * this.difficulty.speedVariance;
+
+    const velocityX = (dx / distance) * speed;
+    const velocityY = (dy / distance) * speed;
+
+    // Reuse from pool if available, else create new instance
+    const instance: BirdPosition = this.pool.pop() ?? {
+      id: '',
+      bird: birdType,
+      x: 0,
+      y: 0,
+      prevX: 0,
+      prevY: 0,
+      velocityX: 0,
+      velocityY: 0,
+      direction: 'left',
+      initialX: 0,
+      initialY: 0,
+      targetX: 0,
+      targetY: 0,
+      speed: 0,
+      phase: 0,
+      phaseTicks: 0,
+      controlX: 0,
+      controlY: 0,
+      boid: undefined,
+      health: 1,
+      maxHealth: 1,
+      stunTicks: 0,
+      status: 'flying',
+      animation: { currentFrame: 0, lastFrameTime: Date.now() },
+      random: Math.random,
+      active: false,
+      cellKey: undefined,
+    };
+
+    instance.id = `b${++this.nextId}`;
+    instance.random = createRng(deriveSeed(this.seed, this.nextId));
+    instance.bird = birdType;
+    instance.x = instance.prevX = x;
+    instance.y = instance.prevY = y;
+    instance.velocityX = velocityX;
+    instance.velocityY = velocityY;
+    instance.direction = velocityX > 0 ? 'right' : 'left';
+    instance.initialX = x;
+    instance.initialY = y;
+    instance.targetX = targetX;
+    instance.targetY = targetY;
+    instance.speed = speed;
+    instance.phase = 0;
+    instance.phaseTicks = 0;
+    instance.controlX = 0;
+    instance.controlY = 0;
+    instance.boid = undefined;
+    instance.health = instance.maxHealth = birdType.boss?.health ?? 1;
+    instance.stunTicks = 0;
+    instance.status = 'flying';
+    instance.animation.currentFrame = 0;
+    instance.animation.lastFrameTime = Date.now();
+    instance.active = true;
+    instance.cellKey = undefined;
+    if (flockOptions?.flockId) {
+      instance.boid = this.joinFlock(flockOptions.flockId, instance);
+    } else {
+      initFlight(instance, this.flightContext);
+    }
+    if (this.caughtIds.has(instance.id)) this.knockDown(instance);
+
+    this.birds.push(instance);
+    this.spatialHash.insert(instance, this.cellSize);
+    return instance;
+  }
+
+  /** Queue a flock (3-5 by default) of one species entering from the same side in quick succession; side and height are random unless given. */
+  spawnFlock(bird: Insect = getRandomInsect(this.random, insect => insect.flocks), flockSize = 3 + Math.floor(this.random() * 3), entry: { side?: number; y?: number } = {}) {
+    const flockStartY = entry.y ?? this.random() * (this.height - 150) + 75;
+    const side = entry.side ?? Math.floor(this.random() * 2);
+    const flockId = ++this.nextFlockId;
+
+    for (let i = 0; i < flockSize; i++) {
+      const y = flockStartY + (this.random() - 0.5) * 150;
+      const delay = i * (0.1 + this.random() * 0.05);
+      this.pendingSpawns.push({ at: this.time + delay, bird, options: { side, y, flockId } });
+    }
+  }
+
+  /** Flying birds whose centre lies within the hit radius of (x, y) (plus a boss's reach); stunned bosses are skipped. */
+  findHits(x: number, y: number) {
+    const hitRadius = this.hitRadius;
+    return this.spatialHash.queryNearby(x, y, this.cellSize).filter((bird) => {
+      if (bird.stunTicks > 0) return false;
+      const dx = x - bird.x;
+      const dy = y - bird.y;
+      const radius = hitRadius + (bird.bird.boss?.reach ?? 0);
+      return dx * dx + dy * dy < radius * radius;
+    });
+  }
+
+  /**
+   * Knock a flying bird out of the air and float the points it scored (its own
+   * points unless given); returns it, or null if it was not catchable. A boss
+   * with health to spare only takes a hit (see damageBird) and returns null.
+   */
+  catchBird(birdId: string, points?: number, multiplier = 1) {
+    const bird = this.birds.find(b => b.id === birdId);
+    if (!bird || bird.status !== 'flying') return null;
+    if (bird.health > 1) {
+      this.damageBird(birdId, bird.health - 1);
+      return null;
+    }
+
+    this.floatingPoints.push({
+      id: `p${++this.nextPointId}`,
+      points: points ?? bird.bird.points,
+      multiplier,
+      label: bird.bird.powerUp ? bird.bird.name : undefined,
+      x: bird.x,
+      y: bird.y,
+      opacity: 1,
+    });
+
+    this.caughtIds.add(birdId);
+    this.knockDown(bird);
+    return bird;
+  }
+
+  /**
+   * Apply a catch made elsewhere (a multiplayer grant): knocks the bird down
+   * like catchBird, or, if it hasn't spawned here yet, makes it spawn already
+   * falling. Returns the bird if it was flying on this client.
+   */
+  removeCaught(birdId: string) {
+    this.caughtIds.add(birdId);
+    const bird = this.birds.find(b => b.id === birdId);
+    if (!bird || bird.status !== 'flying') return null;
+    this.knockDown(bird);
+    return bird;
+  }
+
+  /**
+   * Bring a boss down to `health` (never up) and stun it. Multiplayer grants
+   * pass one less than the health the winner swung at, so clients agree even
+   * if they apply hits in a different order. Returns the bird if it was hurt.
+   */
+  damageBird(birdId: string, health: number) {
+    const bird = this.birds.find(b => b.id === birdId);
+    if (!bird || bird.status !== 'flying' || health >= bird.health) return null;
+    bird.health = Math.max(1, health);
+    bird.stunTicks = Math.round((bird.bird.boss?.stun ?? 0) * TICK_RATE);
+    this.floatingPoints.push({
+      id: `p${++this.nextPointId}`,
+      points: 0,
+      multiplier: 1,
+      label: 'HIT!',
+      x: bird.x,
+      y: bird.y,
+      opacity: 1,
+    });
+    return bird;
+  }
+
+  /** Clear the world and reseed; pass the shared seed to replay the same field. */
+  reset(seed = randomSeed()) {
+    this.seed = seed;
+    this.nextPointId = 0;
+    this.caughtIds.clear();
+    this.inputs = [];
+    this.floatingPoints = [];
+    this.bats = this.bats.map(bat => createBat(bat.color));
+    this.restart();
+  }
+
+  // Back to the first tick of the current seed, keeping this round's inputs and catches for a replay
+  private restart() {
+    this.random = createRng(this.seed);
+    this.nextId = 0;
+    this.flocks.clear();
+    this.nextFlockId = 0;
+    this.birds = [];
+    this.pool = [];
+    this.spatialHash.clear();
+    this.pendingSpawns = [];
+    this.time = 0;
+    this.tick = 0;
+    this.extraTime = 0;
+    this.wave = 1;
+    this.spawnSchedule = this.createSchedule();
+    this.nextScheduled = 0;
+    this.roundProgress = 0;
+    this.effects.reset();
+    this.flightClock = 0;
+    this.bossArrived = false;
+    this.bossWaves = null;
+    this.escapes = 0;
+  }
+
+  // Effects extend rather than stack, extra time adds up and a boss's health only goes down,
+  // so inputs on the same tick apply in any order
+  private applyInputs() {
+    for (const input of this.inputs) {
+      if (input.tick !== this.tick) continue;
+      if (input.kind === 'effect') {
+        this.effects.activate(input.effect, input.duration, this.time);
+      } else if (input.kind === 'extraTime') {
+        this.extraTime += input.seconds;
+      } else if (input.health > 0) {
+        this.damageBird(input.birdId, input.health);
+      } else {
+        const boss = this.birds.find(b => b.id === input.birdId);
+        if (boss?.status === 'flying') this.knockDown(boss);
+      }
+    }
+  }
+
+  private knockDown(bird: BirdPosition) {
+    // Mutate in place to avoid array churn; power-ups are collected rather than falling
+    bird.status = bird.bird.powerUp ? 'collected' : 'hit';
+    bird.velocityX = 0;
+    bird.velocityY = 2;
+  }
+
+  // Advance hit animation at ~10 FPS
+  private updateCursorAnimation(anim: CursorAnimation, dt: number) {
+    if (!anim.isHitting) return;
+    anim.hitTimer += dt;
+    const newFrame = Math.floor(anim.hitTimer * 10);
+    if (newFrame >= 2) {
+      anim.isHitting = false;
+      anim.hitFrame = 0;
+      anim.hitTimer = 0;
+    } else if (newFrame !== anim.hitFrame) {
+      anim.hitFrame = newFrame;
+    }
+  }
+
+  private updateSpawns() {
+    if (this.pendingSpawns.length > 0) {
+      const due = this.pendingSpawns.filter(s => s.at <= this.time);
+      this.pendingSpawns = this.pendingSpawns.filter(s => s.at > this.time);
+      due.forEach(s => this.spawnBird(s.bird, s.options));
+    }
+
+    if (this.endless && this.time >= this.wave * ENDLESS_WAVE_SECONDS) {
+      this.wave++;
+      this.spawnSchedule = this.createSchedule();
+      this.nextScheduled = 0;
+    }
+
+    const schedule = this.spawnSchedule;
+    while (this.nextScheduled < schedule.length && schedule[this.nextScheduled].at <= this.time) {
+      const event = schedule[this.nextScheduled++];
+      if (!this.spawning) continue;
+      if (event.count > 1) this.spawnFlock(event.insect, event.count, event);
+      else this.spawnBird(event.insect, event.side === undefined ? undefined : { side: event.side, y: event.y });
+    }
+
+    if (!this.endless) this.updateBossPhase();
+  }
+
+  // The boss arrives at a fixed time before the end, extra time and penalties
+  // included, and summons minion waves until the round ends. Everything here
+  // is keyed to simulated time and world inputs, not to when catches arrive,
+  // so lockstep clients spawn the same birds with the same ids
+  private updateBossPhase() {
+    const bossType = this.insects.find(insect => insect.boss);
+    if (!bossType) return;
+
+    if (!this.bossArrived && this.time >= this.roundEndsAt - bossType.boss.arrivesAt) {
+      this.bossArrived = true;
+      if (this.spawning) {
+        const boss = this.spawnBird(bossType);
+        this.bossWaves = { bossId: boss.id, boss, nextAt: this.time + bossType.boss.minionInterval };
+      }
+    }
+
+    const waves = this.bossWaves;
+    if (!waves || this.time < waves.nextAt) return;
+    const { minion, minionCount, minionInterval } = bossType.boss;
+    waves.nextAt += minionInterval;
+    if (!this.isLiveBoss(waves.boss, waves.bossId)) {
+      // Still use up the wave's ids so birds spawned after it match clients where the boss lives on
+      this.nextId += minionCount;
+      return;
+    }
+    // Minions draw from the boss's own stream, leaving the spawn stream alone
+    const random = this.random;
+    this.random = waves.boss.random;
+    for (let i = 0; i < minionCount; i++) {
+      const bird = this.spawnBird(getInsectById(minion));
+      bird.x = bird.initialX = waves.boss.x;
+      bird.y = bird.initialY = waves.boss.y;
+      this.spatialHash.updateIfMoved(bird, this.cellSize);
+    }
+    this.random = random;
+  }
+
+  // Pooled objects are reused, so check the id as well as the state
+  private isLiveBoss(bird: BirdPosition, bossId: string) {
+    return bird.id === bossId && bird.active && bird.status === 'flying';
+  }
+
+  // The schedule has its own stream (salt 0 is never a bird id) so it doesn't shift the spawn positions;
+  // endless waves use negative salts, one per wave, and are shifted to start where the wave does
+  // a script is played exactly as authored
+  private createSchedule() {
+    if (this.script) return [...this.script].sort((a, b) => a.at - b.at);
+    if (!this.endless) {
+      return createSpawnSchedule(createRng(deriveSeed(this.seed, 0)), {
+        roundDuration: this.roundDuration,
+        density: this.difficulty.density,
+        insects: this.insects,
+      });
+    }
+    const start = (this.wave - 1) * ENDLESS_WAVE_SECONDS;
+    return createSpawnSchedule(createRng(deriveSeed(this.seed, -this.wave)), {
+      roundDuration: ENDLESS_WAVE_SECONDS,
+      density: this.difficulty.density * (this.waveRamp ? 1 + ENDLESS_DENSITY_STEP * (this.wave - 1) : 1),
+      insects: this.insects,
+    }).map(event => ({ ...event, at: start + event.at }));
+  }
+
+  // Falling insects always move; flying ones only when `fly` (not frozen or between slow-motion ticks)
+  private updateBirds(fly: boolean) {
+    const { width, height, cellSize } = this;
+    const birds = this.birds;
+    const world = this.flightContext;
+
+    for (let i = 0; i < birds.length; ) {
+      const bird = birds[i];
+      if (bird.stunTicks > 0) bird.stunTicks--;
+
+      if (bird.status === 'collected') {
+        this.release(i);
+      } else if (!fly && bird.status === 'flying') {
+        i++;
+      } else if (bird.status === 'hit') {
+        const gravity = 0.1;
+        bird.velocityY = bird.velocityY + gravity;
+        bird.y = bird.y + bird.velocityY;
+        this.spatialHash.updateIfMoved(bird, cellSize);
+        if (bird.y <= height + 100) {
+          i++;
+        } else {
+          this.release(i);
+        }
+      } else {
+        const next = bird.boid ? { x: bird.boid.x, y: bird.boid.y } : moveFlight(bird, world);
+        const newX = next.x;
+        const newY = next.y;
+        if (bird.boid) bird.direction = bird.boid.velocityX > 0 ? 'right' : 'left';
+
+        if (newX >= -150 && newX <= width + 150 && newY >= -150 && newY <= height + 150) {
+          bird.x = newX;
+          bird.y = newY;
+          this.spatialHash.updateIfMoved(bird, cellSize);
+          i++;
+        } else {
+          // Flew off uncaught; friendly insects and power-ups are meant to get away
+          if (bird.bird.points > 0 && !bird.bird.powerUp) this.escapes++;
+          this.release(i);
+        }
+      }
+    }
+  }
+
+  private get flightContext(): FlightContext {
+    return { width: this.width, height: this.height, cursors: this.cursorSteering ? this.bats : [] };
+  }
+
+  // Give a flock member a boid on the flock's course, aimed well past the exit
+  private joinFlock(flockId: number, bird: BirdPosition) {
+    const dx = bird.targetX - bird.x;
+    const dy = bird.targetY - bird.y;
+    const distance = Math.sqrt(dx * dx + dy * dy) || 1;
+    const boid: Boid = {
+      x: bird.x,
+      y: bird.y,
+      velocityX: bird.velocityX,
+      velocityY: bird.velocityY,
+      targetX: bird.x + (dx / distance) * 10000,
+      targetY: bird.y + (dy / distance) * 10000,
+      speed: bird.speed,
+    };
+    const boids = this.flocks.get(flockId) ?? [];
+    boids.push(boid);
+    this.flocks.set(flockId, boids);
+    return boid;
+  }
+
+  private updateFlock(flockId: number, boids: Boid[]) {
+    stepFlock(boids);
+    const { width, height } = this;
+    const remaining = boids.filter(b => b.x >= -150 && b.x <= width + 150 && b.y >= -150 && b.y <= height + 150);
+    if (remaining.length === 0 && !this.pendingSpawns.some(s => s.options.flockId === flockId)) {
+      this.flocks.delete(flockId);
+    } else {
+      this.flocks.set(flockId, remaining);
+    }
+  }
+
+  // Return the bird at index i to the pool (swap-remove keeps the array dense)
+  private release(i: number) {
+    const bird = this.birds[i];
+    this.spatialHash.remove(bird);
+    bird.active = false;
+    this.pool.push(bird);
+    const last = this.birds.pop()!;
+    if (i < this.birds.length) {
+      this.birds[i] = last;
+    }
+  }
+
+  // Floating points: fast rise and short lifetime so they don't stretch too far
+  private updateFloatingPoints(dt: number) {
+    if (this.floatingPoints.length === 0) return;
+    for (let i = 0; i < this.floatingPoints.length; i++) {
+      const p = this.floatingPoints[i];
+      p.y -= 350 * dt; // fast rise (~350px/sec)
+      p.opacity -= 1.6 * dt; // quick fade (~0.6s)
+    }
+    this.floatingPoints = this.floatingPoints.filter(p => p.opacity > 0);
+  }
+}
@@ -0,0 +1,70 @@
+export interface Boid {
+  x: number;
+  y: number;
+  velocityX: number;
+  velocityY: number;
+  targetX: number;
+  targetY: number;
+  speed: number;
+}
+
+// Steering weights, tuned per tick
+const NEIGHBOUR_RADIUS = 140;
+const SEPARATION_RADIUS = 45;
+const COHESION = 0.004;
+const ALIGNMENT = 0.05;
+const SEPARATION = 0.08;
+const SEEK = 0.04;
+
+/**
+ * Advance one flock by a tick with classic boids rules (cohesion, alignment,
+ * separation) plus a pull towards each member's exit so the flock still
+ * crosses the field. All steering is computed before anyone moves, so the
+ * result depends only on the flock's own state and order, never on catches.
+ */
+export function stepFlock(boids: Boid[]) {
+  const steering = boids.map((boid) => {
+    let centreX = 0, centreY = 0, headingX = 0, headingY = 0, awayX = 0, awayY = 0, neighbours = 0;
+
+    for (const other of boids) {
+      if (other === boid) continue;
+      const dx = other.x - boid.x;
+      const dy = other.y - boid.y;
+      const distance = Math.sqrt(dx * dx + dy * dy);
+      if (distance > NEIGHBOUR_RADIUS) continue;
+      neighbours++;
+      centreX += other.x;
+      centreY += other.y;
+      headingX += other.velocityX;
+      headingY += other.velocityY;
+      if (distance > 0 && distance < SEPARATION_RADIUS) {
+        awayX -= (dx / distance) * (SEPARATION_RADIUS - distance);
+        awayY -= (dy / distance) * (SEPARATION_RADIUS - distance);
+      }
+    }
+
+    const toTargetX = boid.targetX - boid.x;
+    const toTargetY = boid.targetY - boid.y;
+    const toTarget = Math.sqrt(toTargetX * toTargetX + toTargetY * toTargetY) || 1;
+    let ax = ((toTargetX / toTarget) * boid.speed - boid.velocityX) * SEEK;
+    let ay = ((toTargetY / toTarget) * boid.speed - boid.velocityY) * SEEK;
+
+    if (neighbours > 0) {
+      ax += (centreX / neighbours - boid.x) * COHESION + (headingX / neighbours - boid.velocityX) * ALIGNMENT + awayX * SEPARATION;
+      ay += (centreY / neighbours - boid.y) * COHESION + (headingY / neighbours - boid.velocityY) * ALIGNMENT + awayY * SEPARATION;
+    }
+    return { ax, ay };
+  });
+
+  boids.forEach((boid, i) => {
+    boid.velocityX += steering[i].ax;
+    boid.velocityY += steering[i].ay;
+    // Keep each member near its own cruising speed
+    const speed = Math.sqrt(boid.velocityX * boid.velocityX + boid.velocityY * boid.velocityY) || 1;
+    const clamped = Math.max(boid.speed * 0.6, Math.min(boid.speed * 1.4, speed));
+    boid.velocityX = (boid.velocityX / speed) * clamped;
+    boid.velocityY = (boid.velocityY / speed) * clamped;
+    boid.x += boid.velocityX;
+    boid.y += boid.velocityY;
+  });
+}
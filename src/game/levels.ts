@@ -0,0 +1,174 @@
+import { z } from "zod";
+import manifest from "./levels.json";
+import { Insect, flightSchema, getInsectById } from "./catalog";
+import { SpawnEvent } from "./spawnDirector";
+
+// One star for the objective plus one per score threshold
+export const MAX_STARS = 3;
+
+const objectiveSchema = z.discriminatedUnion("type", [
+  // Catch `count` of one species
+  z.object({ type: z.literal("catch"), insect: z.string(), count: z.number().int().positive() }),
+  // Reach `points`; with `noFriendly`, swatting a friendly insect fails it
+  z.object({ type: z.literal("score"), points: z.number().int().positive(), noFriendly: z.boolean().default(false) }),
+  // Catch at least `catches` insects without a single empty swing
+  z.object({ type: z.literal("noMisses"), catches: z.number().int().positive() }),
+]);
+
+const spawnRateSchema = z.object({ min: z.number().int().nonnegative(), max: z.number().int().nonnegative() })
+  .refine(rate => rate.min <= rate.max, "spawnRate.min must not exceed spawnRate.max");
+
+// One authored spawn, as the engine's spawnBird/spawnFlock take it
+export const scriptEventSchema = z.object({
+  // Seconds into the round
+  at: z.number().nonnegative(),
+  insect: z.string().refine(id => getInsectById(id), "script insects must be catalog ids"),
+  // More than 1 spawns a flock of that species
+  count: z.number().int().positive().default(1),
+  // 0 left, 1 right, 2 top, 3 bottom; random when unset
+  side: z.number().int().min(0).max(3).optional(),
+  // Entry height in world units (left and right entries); random when unset
+  y: z.number().optional(),
+  // Replaces the species' own flight behaviour
+  flight: flightSchema.optional(),
+});
+
+export const levelSchema = z.object({
+  id: z.string().regex(/^[a-z0-9-]+$/),
+  name: z.string().min(1),
+  // Round length in seconds
+  duration: z.number().positive(),
+  difficulty: z.enum(["easy", "normal", "hard", "insane"]).default("normal"),
+  background: z.string().default("/background.jpg"),
+  // The only insects that appear, by id, each with its appearances per 60 seconds
+  // (a boss listed here arrives on its own schedule, so give it 0)
+  insects: z.record(z.string(), spawnRateSchema).default({})
+    .refine(mix => Object.keys(mix).every(id => getInsectById(id)), "level insects must be catalog ids"),
+  // Hand-authored spawns (from the level editor), played instead of a schedule drawn from `insects`
+  script: z.array(scriptEventSchema).optional(),
+  objective: objectiveSchema,
+  // Scores for the second and third star; the first is for meeting the objective
+  stars: z.array(z.number().int()).length(MAX_STARS - 1),
+})
+  .refine(level => Object.keys(level.insects).length > 0 || level.script?.length > 0, "a level needs an insect mix or a script")
+  .refine(level => level.objective.type !== "catch" || getInsectById(level.objective.insect), "catch objectives must name a catalog id");
+
+const campaignSchema = z.array(levelSchema).min(1)
+  .refine(list => new Set(list.map(l => l.id)).size === list.length, "level ids must be unique");
+
+export type Level = z.infer<typeof levelSchema>;
+export type Objective = z.infer<typeof objectiveSchema>;
+export type ScriptEvent = z.infer<typeof scriptEventSchema>;
+
+/** What a finished (or running) level is judged on. */
+export interface LevelStats {
+  score: number;
+  /** Catches per insect id */
+  catches: Record<string, number>;
+  friendlyHits: number;
+  misses: number;
+}
+
+/**
+ * The campaign, loaded from levels.json in play order and validated at
+ * startup like the insect catalog. Each level unlocks once the one before it
+ * has at least one star.
+ */
+export const levels: Level[] = campaignSchema.parse(manifest);
+
+export function getLevel(id: string | null | undefined) {
+  return levels.find(level => level.id === id);
+}
+
+export function isLevelUnlocked(index: number, stars: Record<string, number>) {
+  return index === 0 || (stars[levels[index - 1].id] ?? 0) > 0;
+}
+
+/** The level's insect mix as catalog entries carrying the level's spawn rates. */
+export function levelInsects(level: Level): Insect[] {
+  return Object.entries(level.insects).map(([id, spawnRate]) => ({ ...getInsectById(id), spawnRate }));
+}
+
+/** A scripted level's spawns in the engine's schedule format, or null to draw from the mix. */
+export function levelScript(level: Level): SpawnEvent[] | null {
+  if (!level.script?.length) return null;
+  return level.script.map(event => {
+    const insect = getInsectById(event.insect);
+    return {
+      at: event.at,
+      insect: event.flight ? { ...insect, flight: event.flight } : insect,
+      count: event.count,
+      side: event.side,
+      y: event.y,
+    };
+  });
+}
+
+/** A level packed into a URL-safe string, for share links. */
+export function encodeLevel(level: Level) {
+  let binary = "";
+  new TextEncoder().encode(JSON.stringify(level)).forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+/** Unpack a shared level; throws if it isn't valid base64 JSON or fails the level schema. */
+export function decodeLevel(encoded: string): Level {
+  const binary = atob(encoded.replace(/-/g, "+").replace(/_/g, "/"));
+  const json = new TextDecoder().decode(Uint8Array.from(binary, char => char.charCodeAt(0)));
+  return levelSchema.parse(JSON.parse(json));
+}
+
+export function describeObjective(objective: Objective) {
+  switch (objective.type) {
+    case "catch":
+      return `Catch ${objective.count} ${getInsectById(objective.insect).name}`;
+    case "score":
+      return objective.noFriendly ? `Score ${objective.points} without hitting a friendly` : `Score ${objective.points}`;
+    case "noMisses":
+      return `Catch ${objective.catches} with no misses`;
+  }
+}
+
+function totalCatches(stats: LevelStats) {
+  return Object.values(stats.catches).reduce((sum, n) => sum + n, 0);
+}
+
+/** Whether the objective can no longer be met this round. */
+export function objectiveFailed(objective: Objective, stats: LevelStats) {
+  if (objective.type === "score") return objective.noFriendly && stats.friendlyHits > 0;
+  if (objective.type === "noMisses") return stats.misses > 0;
+  return false;
+}
+
+export function objectiveMet(objective: Objective, stats: LevelStats) {
+  if (objectiveFailed(objective, stats)) return false;
+  switch (objective.type) {
+    case "catch":
+      return (stats.catches[objective.insect] ?? 0) >= objective.count;
+    case "score":
+      return stats.score >= objective.points;
+    case "noMisses":
+      return totalCatches(stats) >= objective.catches;
+  }
+}
+
+/** Progress for the HUD, e.g. "3/5". */
+export function objectiveProgress(objective: Objective, stats: LevelStats) {
+  if (objectiveFailed(objective, stats)) return "Failed";
+  switch (objective.type) {
+    case "catch":
+      return `${Math.min(stats.catches[objective.insect] ?? 0, objective.count)}/${objective.count}`;
+    case "score":
+      return `${Math.min(stats.score, objective.points)}/${objective.points}`;
+    case "noMisses":
+      return `${Math.min(totalCatches(stats), objective.catches)}/${objective.catches}`;
+  }
+}
+
+/** 0 stars if the objective wasn't met, else 1 plus one per score threshold reached. */
+export function levelStars(level: Level, stats: LevelStats) {
+  if (!objectiveMet(level.objective, stats)) return 0;
+  return 1 + level.stars.filter(threshold => stats.score >= threshold).length;
+}
@@ -0,0 +1,71 @@
+import { PowerUpEffect } from "./catalog";
+import { TICK_RATE } from "./timing";
+
+// Flight speed while slow motion is running (freeze stops flight entirely)
+export const SLOW_MOTION_SCALE = 0.5;
+// Hit radius multiplier while the magnet is running
+export const MAGNET_RADIUS_SCALE = 1.75;
+// Effects that change the field itself; in multiplayer they apply to every
+// client, the rest only help the player who caught them
+export const WORLD_EFFECTS: PowerUpEffect[] = ['slowMotion', 'freeze'];
+// Ticks between a world effect being granted and taking hold, so most clients
+// receive the grant before the field changes; later ones replay the field with it
+export const WORLD_EFFECT_DELAY_TICKS = Math.round(0.5 * TICK_RATE);
+
+interface ActiveEffect {
+  effect: PowerUpEffect;
+  // Engine time (seconds) the effect starts and ends
+  startsAt: number;
+  endsAt: number;
+}
+
+export interface EffectTimer {
+  effect: PowerUpEffect;
+  // Seconds left
+  remaining: number;
+}
+
+/**
+ * Timed effects on one engine, keyed by simulated time so lockstep clients
+ * that start an effect at the same time also end it on the same tick.
+ * Catching a power-up whose effect is already running extends it.
+ */
+export class EffectTimers {
+  private effects: ActiveEffect[] = [];
+
+  activate(effect: PowerUpEffect, duration: number, startsAt: number) {
+    const running = this.effects.find(e => e.effect === effect);
+    if (running) {
+      running.endsAt = Math.max(running.endsAt, startsAt + duration);
+      return;
+    }
+    this.effects.push({ effect, startsAt, endsAt: startsAt + duration });
+  }
+
+  isActive(effect: PowerUpEffect, time: number) {
+    return this.effects.some(e => e.effect === effect && e.startsAt <= time && time < e.endsAt);
+  }
+
+  /** Effects running at `time`, with their seconds left. */
+  active(time: number): EffectTimer[] {
+    return this.effects
+      .filter(e => e.startsAt <= time && time < e.endsAt)
+      .map(e => ({ effect: e.effect, remaining: e.endsAt - time }));
+  }
+
+  /** Flight speed multiplier at `time`: 0 frozen, SLOW_MOTION_SCALE in slow motion, else 1. */
+  timeScale(time: number) {
+    if (this.isActive('freeze', time)) return 0;
+    if (this.isActive('slowMotion', time)) return SLOW_MOTION_SCALE;
+    return 1;
+  }
+
+  /** Drop effects that ended before `time`. */
+  expire(time: number) {
+    if (this.effects.length > 0) this.effects = this.effects.filter(e => e.endsAt > time);
+  }
+
+  reset() {
+    this.effects = [];
+  }
+}
@@ -0,0 +1,276 @@
+import { GameEngine } from "./engine";
+import { insects } from "./catalog";
+import { Bat, BirdPosition, FloatingPoint } from "./types";
+
+interface SpriteData {
+  image: HTMLImageElement;
+  frameWidth: number;
+  frameHeight: number;
+  totalFrames: number;
+  rows: number;
+  columns: number;
+  duration: number;
+  scale: number;
+  facing: 'left' | 'right';
+  rotation: number;
+  loaded: boolean;
+}
+
+type SpriteSheetConfig = Omit<SpriteData, 'image'> & { src: string };
+
+// Insect sheets come from the catalog, keyed by insect id (power-ups have none); the bat is the only built-in sheet
+const spriteSheets: Record<string, SpriteSheetConfig> = {
+  ...Object.fromEntries(insects.filter(insect => insect.sprite).map(insect => [insect.id, { ...insect.sprite, loaded: false }])),
+  player: { src: '/player.png', frameWidth: 48, frameHeight: 180, totalFrames: 2, rows: 1, columns: 2, duration: 0.2, scale: 1, facing: 'left', rotation: 0, loaded: false },
+};
+
+/**
+ * Canvas 2D adapter for GameEngine. Owns the sprite sheets and background
+ * image and draws a frame of the world scaled from world units to the view.
+ */
+export class CanvasRenderer {
+  private sprites: Record<string, SpriteData> = {};
+  private background: HTMLImageElement | null = null;
+
+  // Load all sprite images and the background
+  load(background = '/background.jpg') {
+    Object.keys(spriteSheets).forEach(key => {
+      const sheet = spriteSheets[key];
+      const img = new Image();
+      img.onload = () => {
+        // For the bat (player), compute frame size from actual image so we crop exactly one frame
+        if (key === 'player') {
+          const derivedFrameWidth = Math.floor(img.width / sheet.columns);
+          const derivedFrameHeight = Math.floor(img.height / sheet.rows);
+          this.sprites[key] = {
+            ...sheet,
+            frameWidth: derivedFrameWidth || sheet.frameWidth,
+            frameHeight: derivedFrameHeight || sheet.frameHeight,
+            image: img,
+            loaded: true,
+          };
+        } else {
+          this.sprites[key] = { ...sheet, image: img, loaded: true };
+        }
+      };
+      img.src = sheet.src;
+    });
+
+    const bgImg = new Image();
+    bgImg.onload = () => {
+      this.background = bgImg;
+    };
+    bgImg.src = background;
+  }
+
+  /**
+   * Draw one frame; the world (birds, floating points) is only drawn while a round is running.
+   * `alpha` is how far the frame falls between the last two ticks (0-1); birds are drawn that far along.
+   */
+  render(ctx: CanvasRenderingContext2D, canvas: HTMLCanvasElement, engine: GameEngine, showWorld: boolean, alpha = 1) {
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    this.drawBackground(ctx, canvas);
+
+    ctx.save();
+    ctx.scale(engine.viewScale, engine.viewScale);
+    if (showWorld) {
+      for (let i = 0; i < engine.birds.length; i++) this.drawBird(ctx, engine, engine.birds[i], alpha);
+      for (let i = 0; i < engine.floatingPoints.length; i++) this.drawFloatingPoint(ctx, engine, engine.floatingPoints[i]);
+    }
+    for (let i = 0; i < engine.bats.length; i++) this.drawBatCursor(ctx, engine, engine.bats[i]);
+    ctx.restore();
+  }
+
+  private drawBackground(ctx: CanvasRenderingContext2D, canvas: HTMLCanvasElement) {
+    // Draw solid gradient background to match original
+    const gradient = ctx.createLinearGradient(0, 0, 0, canvas.height);
+    gradient.addColorStop(0, '#e0f2fe'); // sky-200
+    gradient.addColorStop(0.5, '#bfdbfe'); // blue-200
+    gradient.addColorStop(1, '#93c5fd'); // blue-300
+
+    ctx.fillStyle = gradient;
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+    if (this.background) {
+      ctx.drawImage(this.background, 0, 0, canvas.width, canvas.height);
+
+      // Apply overlay to match original DOM implementation
+      const overlayGradient = ctx.createLinearGradient(0, 0, 0, canvas.height);
+      overlayGradient.addColorStop(0, 'rgba(186, 230, 253, 0.7)'); // sky-200/70
+      overlayGradient.addColorStop(0.5, 'rgba(147, 197, 253, 0.6)'); // blue-200/60
+      overlayGradient.addColorStop(1, 'rgba(147, 197, 253, 0.7)'); // blue-300/70
+
+      ctx.fillStyle = overlayGradient;
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+    }
+  }
+
+  private drawBird(ctx: CanvasRenderingContext2D, engine: GameEngine, bird: BirdPosition, alpha: number) {
+    const x = bird.prevX + (bird.x - bird.prevX) * alpha;
+    const y = bird.prevY + (bird.y - bird.prevY) * alpha;
+    if (bird.bird.powerUp) {
+      this.drawPowerUp(ctx, engine, bird, x, y);
+      return;
+    }
+    const sprite = this.sprites[bird.bird.id];
+    if (!sprite || !sprite.loaded) return;
+
+    const currentTime = Date.now();
+    const frameInterval = (sprite.duration * 1000) / sprite.totalFrames; // Time per frame in ms
+
+    if (currentTime - bird.animation.lastFrameTime >= frameInterval) {
+      bird.animation.currentFrame = (bird.animation.currentFrame + 1) % sprite.totalFrames;
+      bird.animation.lastFrameTime = currentTime;
+    }
+
+    const frameCol = bird.animation.currentFrame % sprite.columns;
+    const frameRow = Math.floor(bird.animation.currentFrame / sprite.columns);
+    const sourceX = frameCol * sprite.frameWidth;
+    const sourceY = frameRow * sprite.frameHeight;
+
+    // Base size, scaled up for sheets whose frames have large transparent padding;
+    // non-square frames keep their aspect ratio
+    const renderSize = Math.round(engine.getScaledSize(80) * sprite.scale);
+    const renderHeight = Math.round(renderSize * sprite.frameHeight / sprite.frameWidth);
+
+    if (bird.bird.flight.type === 'descend' && bird.status === 'flying') {
+      this.drawThread(ctx, engine, x, y, renderHeight);
+    }
+
+    ctx.save();
+    ctx.imageSmoothingEnabled = true;
+    ctx.imageSmoothingQuality = 'high';
+    // Flicker through hit-stun
+    if (bird.stunTicks > 0 && Math.floor(bird.stunTicks / 4) % 2 === 0) ctx.globalAlpha = 0.4;
+    ctx.translate(x, y);
+
+    // Handle direction and hit state
+    if (bird.direction !== sprite.facing) {
+      ctx.scale(-1, 1);
+    }
+    if (bird.status === 'hit') {
+      ctx.scale(1, -1);
+      ctx.rotate(0.26); // 15 degrees
+    }
+    if (sprite.rotation) {
+      ctx.rotate(sprite.rotation * Math.PI / 180);
+    }
+
+    ctx.drawImage(
+      sprite.image,
+      sourceX, sourceY, sprite.frameWidth, sprite.frameHeight,
+      -renderSize / 2, -renderHeight / 2, renderSize, renderHeight
+    );
+    ctx.restore();
+
+    if (bird.maxHealth > 1 && bird.status === 'flying') {
+      this.drawHealthBar(ctx, engine, bird, x, y, renderHeight);
+    }
+  }
+
+  // Bar over a boss showing the hits it has left
+  private drawHealthBar(ctx: CanvasRenderingContext2D, engine: GameEngine, bird: BirdPosition, birdX: number, birdY: number, renderHeight: number) {
+    const unit = 1 / engine.viewScale;
+    const width = engine.getScaledSize(120);
+    const height = 8 * unit;
+    const x = birdX - width / 2;
+    const y = birdY - renderHeight / 4 - height * 2;
+    ctx.save();
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.6)';
+    ctx.fillRect(x, y, width, height);
+    ctx.fillStyle = bird.health > bird.maxHealth / 3 ? '#22c55e' : '#ef4444'; // green-500 : red-500
+    ctx.fillRect(x, y, (width * bird.health) / bird.maxHealth, height);
+    ctx.strokeStyle = 'rgba(255, 255, 255, 0.9)';
+    ctx.lineWidth = unit;
+    ctx.strokeRect(x, y, width, height);
+    ctx.restore();
+  }
+
+  // Silk line from the top of the field down to a hanging spider
+  private drawThread(ctx: CanvasRenderingContext2D, engine: GameEngine, x: number, y: number, renderHeight: number) {
+    const unit = 1 / engine.viewScale;
+    ctx.save();
+    ctx.strokeStyle = 'rgba(255, 255, 255, 0.8)';
+    ctx.lineWidth = unit;
+    ctx.beginPath();
+    ctx.moveTo(x, 0);
+    ctx.lineTo(x, y - renderHeight / 4);
+    ctx.stroke();
+    ctx.restore();
+  }
+
+  // Pulsing glow badge with the power-up's icon
+  private drawPowerUp(ctx: CanvasRenderingContext2D, engine: GameEngine, bird: BirdPosition, x: number, y: number) {
+    const { icon, color } = bird.bird.powerUp;
+    const radius = engine.getScaledSize(22) * (1 + Math.sin(Date.now() / 150) * 0.08);
+    ctx.save();
+    ctx.shadowColor = color;
+    ctx.shadowBlur = radius;
+    ctx.fillStyle = color;
+    ctx.globalAlpha = 0.85;
+    ctx.beginPath();
+    ctx.arc(x, y, radius, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.globalAlpha = 1;
+    ctx.shadowBlur = 0;
+    ctx.strokeStyle = 'rgba(255, 255, 255, 0.9)';
+    ctx.lineWidth = radius * 0.12;
+    ctx.stroke();
+    ctx.fillStyle = '#1f2937'; // gray-800
+    ctx.font = `${radius}px "Press Start 2P", sans-serif`;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(icon, x, y);
+    ctx.restore();
+  }
+
+  private drawBatCursor(ctx: CanvasRenderingContext2D, engine: GameEngine, bat: Bat) {
+    const sprite = this.sprites.player;
+    if (!sprite || !sprite.loaded) return;
+
+    ctx.save();
+    // Bat is pixel-art; disable smoothing for crisp edges
+    ctx.imageSmoothingEnabled = false;
+    // Players sharing the field tell their bats apart by a coloured glow
+    if (bat.color) {
+      ctx.shadowColor = bat.color;
+      ctx.shadowBlur = 16;
+    }
+
+    const frameX = bat.anim.isHitting ? bat.anim.hitFrame * sprite.frameWidth : 0;
+    const renderWidth = engine.getScaledSize(48);
+    const renderHeight = engine.getScaledSize(180);
+    const drawX = Math.round(bat.x - renderWidth / 2);
+    const drawY = Math.round(bat.y - renderHeight / 2);
+
+    ctx.drawImage(
+      sprite.image,
+      frameX, 0, sprite.frameWidth, sprite.frameHeight,
+      drawX, drawY, renderWidth, renderHeight
+    );
+    ctx.restore();
+  }
+
+  private drawFloatingPoint(ctx: CanvasRenderingContext2D, engine: GameEngine, point: FloatingPoint) {
+    // Text keeps a constant on-screen size regardless of the world scale
+    const unit = 1 / engine.viewScale;
+    // Penalties (friendly insects) are bigger, red and shake as they rise
+    const penalty = point.points < 0;
+    ctx.save();
+    ctx.globalAlpha = point.opacity;
+    ctx.fillStyle = penalty ? '#ef4444' : '#facc15'; // red-500 : yellow-400
+    ctx.strokeStyle = 'rgba(0, 0, 0, 0.8)';
+    ctx.lineWidth = 2 * unit;
+    ctx.font = `${(penalty ? 22 : 18) * unit}px "Press Start 2P", monospace`;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+
+    let score = point.multiplier > 1 ? `+${point.points} x${point.multiplier}` : `+${point.points}`;
+    if (penalty) score = `${point.points}`;
+    const text = point.label ?? score;
+    const x = penalty ? point.x + Math.sin(point.opacity * 40) * 4 * unit : point.x;
+    ctx.strokeText(text, x, point.y);
+    ctx.fillText(text, x, point.y);
+    ctx.restore();
+  }
+}
@@ -0,0 +1,70 @@
+import { BirdPosition } from "./types";
+
+/**
+ * Uniform grid mapping cell keys to the birds occupying that cell.
+ * Cell size is chosen by the caller (twice the largest hit radius) so a hit query
+ * only needs to scan the 3x3 neighbourhood around the swing.
+ */
+export class SpatialHash {
+  private cells = new Map<string, Set<BirdPosition>>();
+
+  private static keyFor(x: number, y: number, cellSize: number) {
+    const ix = Math.floor(x / cellSize);
+    const iy = Math.floor(y / cellSize);
+    return `${ix},${iy}`;
+  }
+
+  insert(bird: BirdPosition, cellSize: number) {
+    const key = SpatialHash.keyFor(bird.x, bird.y, cellSize);
+    bird.cellKey = key;
+    let bucket = this.cells.get(key);
+    if (!bucket) {
+      bucket = new Set<BirdPosition>();
+      this.cells.set(key, bucket);
+    }
+    bucket.add(bird);
+  }
+
+  updateIfMoved(bird: BirdPosition, cellSize: number) {
+    const nextKey = SpatialHash.keyFor(bird.x, bird.y, cellSize);
+    if (bird.cellKey === nextKey) return; // still in same cell
+    this.remove(bird);
+    bird.cellKey = nextKey;
+    let nextBucket = this.cells.get(nextKey);
+    if (!nextBucket) {
+      nextBucket = new Set<BirdPosition>();
+      this.cells.set(nextKey, nextBucket);
+    }
+    nextBucket.add(bird);
+  }
+
+  remove(bird: BirdPosition) {
+    if (!bird.cellKey) return;
+    const bucket = this.cells.get(bird.cellKey);
+    bucket?.delete(bird);
+    if (bucket && bucket.size === 0) this.cells.delete(bird.cellKey);
+    bird.cellKey = undefined;
+  }
+
+  /** Flying birds in the cells around (x, y), using the cell size they were inserted with; callers still do the exact distance test. */
+  queryNearby(x: number, y: number, cellSize: number) {
+    const result: BirdPosition[] = [];
+    const ix = Math.floor(x / cellSize);
+    const iy = Math.floor(y / cellSize);
+    // Scan current cell and neighbors (3x3) to fully cover the circle
+    for (let dy = -1; dy <= 1; dy++) {
+      for (let dx = -1; dx <= 1; dx++) {
+        const bucket = this.cells.get(`${ix + dx},${iy + dy}`);
+        if (!bucket) continue;
+        bucket.forEach((b) => {
+          if (b.status === 'flying') result.push(b);
+        });
+      }
+    }
+    return result;
+  }
+
+  clear() {
+    this.cells.clear();
+  }
+}
@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import { insects } from "./catalog";
+import { difficulties } from "./difficulty";
+import { createRng } from "./random";
+import { countScheduled, createSpawnSchedule } from "./spawnDirector";
+
+const SEEDS = Array.from({ length: 200 }, (_, i) => i + 1);
+
+describe("createSpawnSchedule", () => {
+  it("gives the same schedule for the same seed", () => {
+    const options = { roundDuration: 60 };
+    expect(createSpawnSchedule(createRng(42), options)).toEqual(createSpawnSchedule(createRng(42), options));
+  });
+
+  it("meets every quota within its spawnRate range in a 60 second round", () => {
+    SEEDS.forEach(seed => {
+      const counts = countScheduled(createSpawnSchedule(createRng(seed), { roundDuration: 60 }));
+      insects.forEach(insect => {
+        expect(counts[insect.id] ?? 0).toBeGreaterThanOrEqual(insect.spawnRate.min);
+        expect(counts[insect.id] ?? 0).toBeLessThanOrEqual(insect.spawnRate.max);
+      });
+    });
+  });
+
+  it("keeps the Mouch to 2-4 appearances at every difficulty", () => {
+    Object.values(difficulties).forEach(({ roundDuration, density }) => {
+      SEEDS.forEach(seed => {
+        const counts = countScheduled(createSpawnSchedule(createRng(seed), { roundDuration, density }));
+        expect(counts.mouch).toBeGreaterThanOrEqual(2);
+        expect(counts.mouch).toBeLessThanOrEqual(4);
+      });
+    });
+  });
+
+  it("spaces spawns inside the round in order", () => {
+    const schedule = createSpawnSchedule(createRng(7), { roundDuration: 60 });
+    schedule.forEach((event, i) => {
+      expect(event.at).toBeGreaterThan(0);
+      expect(event.at).toBeLessThan(60);
+      if (i > 0) expect(event.at).toBeGreaterThanOrEqual(schedule[i - 1].at);
+    });
+  });
+});
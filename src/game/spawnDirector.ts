@@ -0,0 +1,81 @@
+import { Insect, insects as catalog } from "./catalog";
+
+export interface SpawnEvent {
+  /** Seconds into the round */
+  at: number;
+  insect: Insect;
+  /** 1 for a single insect, more for a flock of that species */
+  count: number;
+  /** Entry side and height as in SpawnOptions (scripted levels); random when unset */
+  side?: number;
+  y?: number;
+}
+
+export interface SpawnScheduleOptions {
+  /** Round length in seconds; spawnRate ranges are per 60 seconds and scale with it */
+  roundDuration: number;
+  /** Multiplier on every quota */
+  density?: number;
+  insects?: Insect[];
+}
+
+// Chance that a flocking species spends 3-5 of its quota on one flock
+const FLOCK_CHANCE = 0.15;
+// Spawns land between these fractions of the round, leaving a quiet start and finish
+const FIRST_SPAWN = 0.02;
+const LAST_SPAWN = 0.95;
+
+// Spawn density rises linearly over the round (three times as busy at the end
+// as at the start); this maps a uniform fraction to a point in the round with that density
+function rampedProgress(u: number) {
+  return (-1 + Math.sqrt(1 + 8 * u)) / 2;
+}
+
+/**
+ * The spawn director: decides up front how many of each insect a round gets
+ * and when. Each species draws a quota from its spawnRate range (scaled to
+ * the round length), may group some of it into flocks, and has its
+ * appearances spread evenly over the round with jitter, busier towards the
+ * end. So every quota is met exactly: the legendary Mouch shows up 2-4 times
+ * a round at any difficulty, never 0 and never 9.
+ *
+ * Pure and seeded: the same random stream and options give the same
+ * schedule, which is what multiplayer lockstep (and any test) relies on.
+ */
+export function createSpawnSchedule(random: () => number, { roundDuration, density = 1, insects = catalog }: SpawnScheduleOptions) {
+  const events: SpawnEvent[] = [];
+  const scale = (roundDuration / 60) * density;
+
+  insects.forEach(insect => {
+    const { min, max } = insect.spawnRate;
+    let remaining = Math.round((min + Math.floor(random() * (max - min + 1))) * scale);
+    // Legendaries keep their advertised range whatever the density or round length
+    if (insect.rarity === 'legendary') remaining = Math.min(max, Math.max(min, remaining));
+
+    const groups: number[] = [];
+    while (remaining > 0) {
+      const flock = insect.flocks && remaining >= 3 && random() < FLOCK_CHANCE;
+      const count = flock ? Math.min(remaining, 3 + Math.floor(random() * 3)) : 1;
+      groups.push(count);
+      remaining -= count;
+    }
+
+    // One appearance per equal slice of the round, at a random point inside it
+    groups.forEach((count, i) => {
+      const u = (i + random()) / groups.length;
+      const progress = FIRST_SPAWN + rampedProgress(u) * (LAST_SPAWN - FIRST_SPAWN);
+      events.push({ at: progress * roundDuration, insect, count });
+    });
+  });
+
+  return events.sort((a, b) => a.at - b.at);
+}
+
+/** Total insects a schedule will spawn, per insect id. */
+export function countScheduled(schedule: SpawnEvent[]) {
+  const counts: Record<string, number> = {};
+  schedule.forEach(event => {
+    counts[event.insect.id] = (counts[event.insect.id] ?? 0) + event.count;
+  });
+  return counts;
+}
@@ -0,0 +1,27 @@
+import { SwingRecord } from "./types";
+
+export interface SwingStats {
+  swings: number;
+  hits: number;
+  misses: number;
+  /** Fraction of swings that caught at least one insect, 0 with no swings */
+  accuracy: number;
+  swingsPerMinute: number;
+}
+
+/** Summarise a round's swing log; `durationSec` is how long the round was played. */
+export function swingStats(swings: SwingRecord[], durationSec: number): SwingStats {
+  const hits = swings.filter(swing => swing.catches > 0).length;
+  return {
+    swings: swings.length,
+    hits,
+    misses: swings.length - hits,
+    accuracy: swings.length > 0 ? hits / swings.length : 0,
+    swingsPerMinute: durationSec > 0 ? (swings.length * 60) / durationSec : 0,
+  };
+}
+
+/** Accuracy as a whole percentage, e.g. "72%". */
+export function formatAccuracy(stats: SwingStats) {
+  return `${Math.round(stats.accuracy * 100)}%`;
+}
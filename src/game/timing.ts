@@ -0,0 +1,20 @@
+import { SimulationTimeline } from "./types";
+
+// Lockstep simulation rate; one tick matches one frame of the original 60 Hz tuning
+export const TICK_RATE = 60;
+export const TICK_SECONDS = 1 / TICK_RATE;
+
+function ticksSinceStart(timeline: SimulationTimeline, now: number) {
+  return ((now - timeline.startedAt) / 1000) * TICK_RATE;
+}
+
+/** The tick every client in a session should have simulated up to at wall time `now`. */
+export function getTargetTick(timeline: SimulationTimeline, now: number) {
+  return timeline.originTick + Math.floor(ticksSinceStart(timeline, now));
+}
+
+/** How far `now` falls between the target tick and the next one (0-1), for render interpolation. */
+export function getTickProgress(timeline: SimulationTimeline, now: number) {
+  const ticks = ticksSinceStart(timeline, now);
+  return ticks - Math.floor(ticks);
+}
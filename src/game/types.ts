@@ -0,0 +1,137 @@
+import type { Insect, PowerUpEffect } from "./catalog";
+import type { Boid } from "./flocking";
+import type { DifficultyId } from "./difficulty";
+
+// Catalog entry for a species; see insects.json
+export type BirdType = Insect;
+
+// How a single-player game is played: one timed round, or endless survival;
+// 'shared' plays a level from an editor share link, which is not a campaign level
+export type SoloMode = 'round' | 'endless' | 'daily' | 'campaign' | 'shared' | 'practice';
+
+export interface BirdAnimation {
+  currentFrame: number;
+  lastFrameTime: number;
+}
+
+export interface BirdPosition {
+  id: string;
+  bird: BirdType;
+  x: number;
+  y: number;
+  // Position before the latest tick; the renderer interpolates from here between ticks
+  prevX: number;
+  prevY: number;
+  velocityX: number;
+  velocityY: number;
+  direction: 'left' | 'right';
+  initialX: number;
+  initialY: number;
+  // Where the insect is headed and how fast it flies there (world units per tick)
+  targetX: number;
+  targetY: number;
+  speed: number;
+  // Behaviour state machine: current phase and ticks spent in it
+  phase: number;
+  phaseTicks: number;
+  // Bezier control point, for arcing flight
+  controlX: number;
+  controlY: number;
+  // Flock members fly as boids; the boid keeps flying for its flock after the bird is caught
+  boid?: Boid;
+  // Hits left before it goes down (1 for everything but bosses)
+  health: number;
+  maxHealth: number;
+  // Ticks left of hit-stun, during which swings pass through it
+  stunTicks: number;
+  // 'hit' insects fall off the field; 'collected' power-ups vanish on the next tick
+  status: 'flying' | 'hit' | 'collected';
+  animation: BirdAnimation;
+  // Seeded stream for this bird's flight jitter
+  random: () => number;
+  // Internal fields for performance systems (pooling + spatial hash)
+  active?: boolean;
+  cellKey?: string;
+}
+
+export interface FloatingPoint {
+  id: string;
+  points: number;
+  // Combo multiplier the points were scored at
+  multiplier: number;
+  // Shown instead of the points (power-ups)
+  label?: string;
+  x: number;
+  y: number;
+  opacity: number;
+}
+
+export interface CursorAnimation {
+  isHitting: boolean;
+  hitFrame: number;
+  hitTimer: number;
+}
+
+// One bat on the field, in world units; extra bats come from two-hand play
+export interface Bat {
+  x: number;
+  y: number;
+  anim: CursorAnimation;
+  // Glow drawn around the bat to tell players apart; null draws it plain
+  color: string | null;
+}
+
+// Flock members share a side and a starting height
+export interface SpawnOptions {
+  side: number;
+  y: number;
+  flockId?: number;
+}
+
+// Published by the multiplayer host so every client simulates the same field:
+// tick `originTick` happened at host wall time `startedAt` (ms since epoch)
+export interface SimulationTimeline {
+  gameId: number;
+  seed: number;
+  originTick: number;
+  startedAt: number;
+  difficulty: DifficultyId;
+}
+
+// One bat swing, logged whether or not it caught anything
+export interface SwingRecord {
+  // Bat position in world units
+  x: number;
+  y: number;
+  // Insects caught by this swing (0 for a miss); friendly ones swatted don't count
+  catches: number;
+  timestamp: number;
+}
+
+// A change to the field that every lockstep client makes on the same tick;
+// the host picks the tick when it grants a catch (see GameEngine.addInput)
+export type WorldInput = { tick: number } & (
+  | { kind: 'effect'; effect: PowerUpEffect; duration: number }
+  // Seconds added to the round, which moves the boss's arrival with its end
+  | { kind: 'extraTime'; seconds: number }
+  // A boss worn down to `health`; 0 brings it down
+  | { kind: 'bossHit'; birdId: string; health: number }
+);
+
+// A player's request to be credited with a bird they swung at; `tick` is the
+// simulation tick of the swing, `timestamp` their wall clock (ms since epoch)
+export interface CatchClaim {
+  gameId: number;
+  birdId: string;
+  userId: string;
+  birdType: string;
+  // Points awarded, already multiplied
+  points: number;
+  multiplier: number;
+  tick: number;
+  // Tick the catch changes every field on (world power-ups, extra time, boss hits), set by the host when it grants it
+  worldTick?: number;
+  // Health the bird had when swung at; a boss takes one claim per point of it
+  health?: number;
+  timestamp: number;
+}
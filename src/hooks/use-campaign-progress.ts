@@ -0,0 +1,39 @@
+import { useCallback, useEffect, useState } from "react";
+import { getCampaignProgress, saveLevelStars } from "@/services/gameDataService";
+
+/**
+ * Best stars per campaign level. With a wallet connected they are loaded from
+ * and saved to Supabase; without one they only last until the page reloads.
+ */
+export function useCampaignProgress(address?: string) {
+  const [stars, setStars] = useState<Record<string, number>>({});
+
+  useEffect(() => {
+    setStars({});
+    if (!address) return;
+    let cancelled = false;
+    getCampaignProgress(address)
+      .then(progress => {
+        if (!cancelled) setStars(progress);
+      })
+      .catch((err) => {
+        console.error("❌ Failed to load campaign progress:", err);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [address]);
+
+  // Keep the best result per level; only an improvement is saved
+  const recordStars = useCallback((levelId: string, earned: number) => {
+    if (earned <= (stars[levelId] ?? 0)) return;
+    setStars(prev => ({ ...prev, [levelId]: earned }));
+    if (address) {
+      saveLevelStars(address, levelId, earned).catch((err) => {
+        console.error("❌ Failed to save campaign progress:", err);
+      });
+    }
+  }, [address, stars]);
+
+  return { stars, recordStars };
+}
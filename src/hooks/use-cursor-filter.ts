@@ -0,0 +1,25 @@
+import { useCallback, useMemo, useState } from "react";
+import { CursorFilter, CursorFilterSettings, loadFilterSettings, saveFilterSettings } from "@/lib/cursorFilter";
+
+// One filter per hand that can be tracked at once
+const MAX_HANDS = 2;
+
+/**
+ * Hand-mode cursor filters, one per hand, built from this device's saved
+ * settings. Changing the settings saves them and swaps in fresh filters.
+ */
+export function useCursorFilter() {
+  const [settings, setSettings] = useState<CursorFilterSettings>(loadFilterSettings);
+  const filters = useMemo(() => Array.from({ length: MAX_HANDS }, () => new CursorFilter(settings)), [settings]);
+
+  const updateSettings = useCallback((next: CursorFilterSettings) => {
+    setSettings(next);
+    try {
+      saveFilterSettings(next);
+    } catch (err) {
+      console.error("❌ Failed to save cursor filter settings:", err);
+    }
+  }, []);
+
+  return { settings, updateSettings, filters };
+}
@@ -0,0 +1,155 @@
+import { RefObject, useEffect, useRef } from "react";
+import { GameEngine, TICK_SECONDS, getTargetTick, getTickProgress } from "@/game/engine";
+import { CanvasRenderer } from "@/game/renderer";
+import { SimulationTimeline } from "@/game/types";
+import { Difficulty, getDifficulty } from "@/game/difficulty";
+import { Insect } from "@/game/catalog";
+import { SpawnEvent } from "@/game/spawnDirector";
+import { CursorFilter } from "@/lib/cursorFilter";
+
+interface UseGameEngineOptions {
+  containerRef: RefObject<HTMLDivElement>;
+  canvasRef: RefObject<HTMLCanvasElement>;
+  // Whether the round is live: the world is stepped and drawn only while true
+  running: boolean;
+  // While true a live round stays on screen but isn't stepped (single-player pause)
+  paused?: boolean;
+  // Shared seed and tick origin; when set the engine runs in fixed ticks in lockstep with other clients
+  timeline?: SimulationTimeline | null;
+  // Preset for a local game; a shared timeline brings its own
+  difficulty?: Difficulty;
+  // Endless survival waves instead of a fixed round, and whether they ramp up; fixed for the engine's lifetime
+  endless?: boolean;
+  waveRamp?: boolean;
+  // Seed for a local game, e.g. the daily challenge's; random when unset
+  seed?: number;
+  // Campaign level overrides: round length, insect mix or authored spawns, and background image
+  roundDuration?: number;
+  insects?: Insect[];
+  script?: SpawnEvent[] | null;
+  background?: string;
+  // Hand-mode cursors, one per bat, sampled every frame so bats move smoothly between camera frames
+  handCursors?: CursorFilter[];
+}
+
+// Cap on ticks simulated in one frame so a late joiner catches up without freezing the tab
+const MAX_CATCH_UP_TICKS = 240;
+// Longest frame a local game catches up on; anything beyond (a stalled tab) is dropped
+const MAX_FRAME_SECONDS = 0.25;
+
+/**
+ * Mounts a GameEngine on a canvas: keeps the canvas sized to its container,
+ * loads the sprites and drives a single requestAnimationFrame loop that steps
+ * the engine while running and always renders background + bat.
+ *
+ * The engine always advances in fixed TICK_SECONDS ticks, whatever the
+ * display's refresh rate, and frames between ticks are drawn interpolated, so
+ * insects fly at the same speed on a 60 Hz and a 120 Hz screen.
+ */
+export function useGameEngine({ containerRef, canvasRef, running, paused = false, timeline = null, difficulty, endless, waveRamp, seed, roundDuration, insects, script, background, handCursors = [] }: UseGameEngineOptions) {
+  const engineRef = useRef<GameEngine | null>(null);
+  if (!engineRef.current) engineRef.current = new GameEngine({ seed, difficulty, roundDuration, endless, waveRamp, insects, script });
+  const engine = engineRef.current;
+
+  const runningRef = useRef(running);
+  const pausedRef = useRef(paused);
+  const timelineRef = useRef(timeline);
+  const handCursorsRef = useRef(handCursors);
+  useEffect(() => {
+    runningRef.current = running;
+    pausedRef.current = paused;
+    timelineRef.current = timeline;
+    handCursorsRef.current = handCursors;
+  }, [running, paused, timeline, handCursors]);
+
+  useEffect(() => {
+    const renderer = new CanvasRenderer();
+    renderer.load(background);
+
+    let frameId: number | null = null;
+    let lastFrameTime = 0;
+    // Local games: wall time not yet simulated, and how far the frame sits between ticks
+    let accumulator = 0;
+    let alpha = 1;
+    let boundCanvas: HTMLCanvasElement | null = null;
+    let ctx: CanvasRenderingContext2D | null = null;
+
+    // Set canvas size to match container
+    const resizeCanvas = () => {
+      if (!boundCanvas || !ctx || !containerRef.current) return;
+      const rect = containerRef.current.getBoundingClientRect();
+      const dpr = Math.max(1, window.devicePixelRatio || 1);
+      // Set the internal buffer size in device pixels for crisp rendering
+      boundCanvas.width = Math.floor(rect.width * dpr);
+      boundCanvas.height = Math.floor(rect.height * dpr);
+      // Keep CSS size in CSS pixels
+      boundCanvas.style.width = `${rect.width}px`;
+      boundCanvas.style.height = `${rect.height}px`;
+      // Scale drawing operations so game coordinates stay in CSS pixels
+      ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+      // Prefer high quality for non-pixel-art birds; bat will override per-draw
+      ctx.imageSmoothingEnabled = true;
+      ctx.imageSmoothingQuality = 'high';
+    };
+
+    const gameLoop = () => {
+      // The screens swap canvases between views; rebind whenever the element changes
+      const canvas = canvasRef.current;
+      if (canvas && canvas !== boundCanvas) {
+        boundCanvas = canvas;
+        ctx = canvas.getContext('2d');
+        resizeCanvas();
+      }
+
+      const now = performance.now();
+      const dt = lastFrameTime ? (now - lastFrameTime) / 1000 : 0;
+      lastFrameTime = now;
+
+      if (containerRef.current) {
+        engine.resize(containerRef.current.clientWidth, containerRef.current.clientHeight);
+      }
+      handCursorsRef.current.forEach((cursor, bat) => {
+        const hand = cursor.at(now);
+        if (hand) engine.setCursor(hand.x * engine.width, hand.y * engine.height, bat);
+      });
+      if (runningRef.current && !pausedRef.current) {
+        const shared = timelineRef.current;
+        // Cursors are local input, so in lockstep insects must not react to them
+        engine.cursorSteering = !shared;
+        if (shared) {
+          // A new seed means a new game: replay it from the first tick
+          if (engine.seed !== shared.seed || engine.difficulty.id !== shared.difficulty) {
+            engine.setDifficulty(getDifficulty(shared.difficulty));
+            engine.reset(shared.seed);
+          }
+          const wallNow = Date.now();
+          const target = getTargetTick(shared, wallNow);
+          for (let n = 0; engine.tick < target && n < MAX_CATCH_UP_TICKS; n++) {
+            engine.step(TICK_SECONDS);
+          }
+          alpha = engine.tick === target ? getTickProgress(shared, wallNow) : 1;
+        } else {
+          accumulator += Math.min(dt, MAX_FRAME_SECONDS);
+          while (accumulator >= TICK_SECONDS) {
+            engine.step(TICK_SECONDS);
+            accumulator -= TICK_SECONDS;
+          }
+          alpha = accumulator / TICK_SECONDS;
+        }
+      }
+      if (boundCanvas && ctx) renderer.render(ctx, boundCanvas, engine, runningRef.current, alpha);
+
+      frameId = requestAnimationFrame(gameLoop);
+    };
+
+    window.addEventListener('resize', resizeCanvas);
+    frameId = requestAnimationFrame(gameLoop);
+
+    return () => {
+      window.removeEventListener('resize', resizeCanvas);
+      if (frameId !== null) cancelAnimationFrame(frameId);
+    };
+  }, [engine, containerRef, canvasRef, background]);
+
+  return engine;
+}
@@ -0,0 +1,21 @@
+import { useCallback, useState } from "react";
+import { ReachBox, loadReachBox, saveReachBox } from "@/lib/handCalibration";
+
+/**
+ * This device's hand-mode reach box, or null until the player has calibrated.
+ * Saved calibrations persist in localStorage.
+ */
+export function useHandCalibration() {
+  const [reach, setReach] = useState<ReachBox | null>(loadReachBox);
+
+  const saveReach = useCallback((box: ReachBox) => {
+    setReach(box);
+    try {
+      saveReachBox(box);
+    } catch (err) {
+      console.error("❌ Failed to save hand calibration:", err);
+    }
+  }, []);
+
+  return { reach, saveReach };
+}
@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import { createRng } from "@/game/random";
+import { CURSOR_FILTERS, CursorFilterKind, CursorSample, DEFAULT_FILTER_SETTINGS, filterStream } from "./cursorFilter";
+
+// A 30 fps camera
+const FRAME_MS = 1000 / 30;
+// Display frames at 60 fps from `from` ms for `count` frames
+const displayFrames = (from: number, count: number) => Array.from({ length: count }, (_, i) => from + (i * 1000) / 60);
+
+/**
+ * A palm stream as the camera would record it: the hand at `path`, seen
+ * `latencyMs` late and with up to `jitter` of landmark noise on each axis.
+ */
+function record(path: (t: number) => { x: number; y: number }, { seconds, latencyMs = 0, jitter = 0.004, seed = 1 }: { seconds: number; latencyMs?: number; jitter?: number; seed?: number }) {
+  const random = createRng(seed);
+  const samples: CursorSample[] = [];
+  for (let t = 0; t <= seconds * 1000; t += FRAME_MS) {
+    const { x, y } = path(t - latencyMs);
+    samples.push({ t, x: x + (random() * 2 - 1) * jitter, y: y + (random() * 2 - 1) * jitter });
+  }
+  return samples;
+}
+
+const settingsFor = (kind: CursorFilterKind, predictionMs = 0) => ({ ...DEFAULT_FILTER_SETTINGS, kind, predictionMs });
+const meanError = (points: CursorSample[], x: (t: number) => number) =>
+  points.reduce((sum, point) => sum + Math.abs(point.x - x(point.t)), 0) / points.length;
+
+describe("filterStream", () => {
+  const still = record(() => ({ x: 0.5, y: 0.5 }), { seconds: 3 });
+  // Left to right at 0.3 of the view per second
+  const sweepX = (t: number) => 0.2 + (0.3 * t) / 1000;
+  const sweep = record(t => ({ x: sweepX(t), y: 0.5 }), { seconds: 2, latencyMs: 50 });
+
+  it("passes the recording through unchanged with the raw filter and no prediction", () => {
+    expect(filterStream(still, settingsFor('none'))).toEqual(still);
+  });
+
+  it("draws nothing before the first camera frame", () => {
+    const out = filterStream(still, settingsFor('oneEuro'), [-20, -10, 0]);
+    expect(out.map(point => point.t)).toEqual([0]);
+  });
+
+  it.each(CURSOR_FILTERS.filter(kind => kind !== 'none'))("%s steadies a still hand", kind => {
+    const spread = (points: CursorSample[]) => Math.max(...points.map(point => Math.abs(point.x - 0.5)));
+    // Skip the first half second while the filter settles
+    const raw = filterStream(still, settingsFor('none')).slice(15);
+    const filtered = filterStream(still, settingsFor(kind)).slice(15);
+    expect(spread(filtered)).toBeLessThan(spread(raw));
+  });
+
+  it.each(CURSOR_FILTERS)("%s makes up for camera latency with prediction", kind => {
+    const frames = displayFrames(1000, 54);
+    const late = filterStream(sweep, settingsFor(kind), frames);
+    const predicted = filterStream(sweep, settingsFor(kind, 50), frames);
+    expect(meanError(predicted, sweepX)).toBeLessThan(meanError(late, sweepX) * 0.7);
+  });
+
+  it("starts over after the hand is lost instead of smoothing across the gap", () => {
+    const before = record(() => ({ x: 0.2, y: 0.2 }), { seconds: 1, jitter: 0 });
+    const after = record(() => ({ x: 0.8, y: 0.8 }), { seconds: 1, jitter: 0 }).map(sample => ({ ...sample, t: sample.t + 2000 }));
+    const out = filterStream([...before, ...after], settingsFor('oneEuro'));
+    expect(out[before.length]).toEqual({ t: 2000, x: 0.8, y: 0.8 });
+  });
+
+  it("keeps the predicted cursor on the view", () => {
+    const edge = record(t => ({ x: 0.9 + (0.5 * t) / 1000, y: 0.5 }), { seconds: 0.5, jitter: 0 }).map(sample => ({ ...sample, x: Math.min(1, sample.x) }));
+    const out = filterStream(edge, settingsFor('kalman', 100), displayFrames(0, 30));
+    out.forEach(point => expect(point.x).toBeLessThanOrEqual(1));
+  });
+});
@@ -0,0 +1,223 @@
+import { z } from "zod";
+
+/**
+ * Smoothing and prediction for the hand-mode cursor. Camera frames arrive at
+ * 15-30 fps with a few pixels of landmark jitter; each frame's palm position
+ * (normalized 0..1) is pushed through a filter, and between frames the cursor
+ * is extrapolated along the filtered velocity, a little ahead to make up for
+ * capture and inference latency.
+ */
+
+export const CURSOR_FILTERS = ['none', 'exponential', 'oneEuro', 'kalman'] as const;
+export type CursorFilterKind = (typeof CURSOR_FILTERS)[number];
+
+export const FILTER_LABELS: Record<CursorFilterKind, string> = {
+  none: 'Raw',
+  exponential: 'Exponential',
+  oneEuro: 'One Euro',
+  kalman: 'Kalman',
+};
+
+export const cursorFilterSettingsSchema = z.object({
+  kind: z.enum(CURSOR_FILTERS),
+  // How far ahead of the last camera frame the cursor is drawn (ms)
+  predictionMs: z.number().min(0).max(150),
+  // Share of the previous estimate kept on each frame (0 = raw)
+  exponential: z.object({ smoothing: z.number().min(0).max(0.95) }),
+  // Cutoff (Hz) when the hand is still, and how fast it opens up with speed
+  oneEuro: z.object({ minCutoff: z.number().positive(), beta: z.number().min(0) }),
+  // Expected acceleration (how quickly the hand may change course) and landmark jitter (normalized units)
+  kalman: z.object({ processNoise: z.number().positive(), measurementNoise: z.number().positive() }),
+});
+
+export type CursorFilterSettings = z.infer<typeof cursorFilterSettingsSchema>;
+
+export const DEFAULT_FILTER_SETTINGS: CursorFilterSettings = {
+  kind: 'oneEuro',
+  predictionMs: 50,
+  exponential: { smoothing: 0.5 },
+  oneEuro: { minCutoff: 1, beta: 10 },
+  kalman: { processNoise: 1, measurementNoise: 0.01 },
+};
+
+// Never extrapolate further than this past the last frame, so a stalled camera doesn't fling the bat
+const MAX_LOOKAHEAD_SECONDS = 0.1;
+// A gap this long between frames means the hand was lost: start over rather than filter across it
+const RESET_GAP_SECONDS = 0.5;
+// Derivative cutoff (Hz) for the One Euro filter's speed estimate
+const ONE_EURO_D_CUTOFF = 2.5;
+
+/** One axis of a filter: takes a sample `dt` seconds after the last and returns the estimate. */
+interface AxisFilter {
+  value: number;
+  velocity: number;
+  update(x: number, dt: number): number;
+}
+
+// Smoothing factor of a first-order low-pass at `cutoff` Hz for a step of `dt` seconds
+function lowPassAlpha(cutoff: number, dt: number) {
+  const tau = 1 / (2 * Math.PI * cutoff);
+  return 1 / (1 + tau / dt);
+}
+
+class RawAxis implements AxisFilter {
+  velocity = 0;
+  constructor(public value: number) {}
+
+  update(x: number, dt: number) {
+    this.velocity = (x - this.value) / dt;
+    this.value = x;
+    return x;
+  }
+}
+
+class ExponentialAxis implements AxisFilter {
+  velocity = 0;
+  constructor(public value: number, private smoothing: number) {}
+
+  update(x: number, dt: number) {
+    const blend = 1 - this.smoothing;
+    const next = this.value + blend * (x - this.value);
+    this.velocity += blend * ((next - this.value) / dt - this.velocity);
+    this.value = next;
+    return next;
+  }
+}
+
+// Casiez et al., "1€ Filter": a low-pass whose cutoff rises with speed, so slow moves are steady and fast ones don't lag
+class OneEuroAxis implements AxisFilter {
+  velocity = 0;
+  private lastRaw: number;
+
+  constructor(public value: number, private minCutoff: number, private beta: number) {
+    this.lastRaw = value;
+  }
+
+  update(x: number, dt: number) {
+    const rawVelocity = (x - this.lastRaw) / dt;
+    this.lastRaw = x;
+    this.velocity += lowPassAlpha(ONE_EURO_D_CUTOFF, dt) * (rawVelocity - this.velocity);
+    const cutoff = this.minCutoff + this.beta * Math.abs(this.velocity);
+    this.value += lowPassAlpha(cutoff, dt) * (x - this.value);
+    return this.value;
+  }
+}
+
+// Constant-velocity Kalman filter over [position, velocity]
+class KalmanAxis implements AxisFilter {
+  velocity = 0;
+  // Covariance [[pp, pv], [pv, vv]]
+  private pp = 1;
+  private pv = 0;
+  private vv = 1;
+
+  constructor(public value: number, private processNoise: number, private measurementNoise: number) {}
+
+  update(x: number, dt: number) {
+    // Predict
+    this.value += this.velocity * dt;
+    const q = this.processNoise;
+    const pp = this.pp + dt * (2 * this.pv + dt * this.vv) + q * dt ** 3 / 3;
+    const pv = this.pv + dt * this.vv + q * dt ** 2 / 2;
+    const vv = this.vv + q * dt;
+    // Correct with the measured position
+    const s = pp + this.measurementNoise ** 2;
+    const kp = pp / s;
+    const kv = pv / s;
+    const residual = x - this.value;
+    this.value += kp * residual;
+    this.velocity += kv * residual;
+    this.pp = (1 - kp) * pp;
+    this.pv = (1 - kp) * pv;
+    this.vv = vv - kv * pv;
+    return this.value;
+  }
+}
+
+function createAxis(settings: CursorFilterSettings, start: number): AxisFilter {
+  switch (settings.kind) {
+    case 'exponential':
+      return new ExponentialAxis(start, settings.exponential.smoothing);
+    case 'oneEuro':
+      return new OneEuroAxis(start, settings.oneEuro.minCutoff, settings.oneEuro.beta);
+    case 'kalman':
+      return new KalmanAxis(start, settings.kalman.processNoise, settings.kalman.measurementNoise);
+    default:
+      return new RawAxis(start);
+  }
+}
+
+/** A palm position from one camera frame, at `t` ms (performance.now()). */
+export interface CursorSample {
+  t: number;
+  x: number;
+  y: number;
+}
+
+export class CursorFilter {
+  private axes: [AxisFilter, AxisFilter] | null = null;
+  private lastAt = 0;
+
+  constructor(readonly settings: CursorFilterSettings = DEFAULT_FILTER_SETTINGS) {}
+
+  /** Feed the palm position from a camera frame. */
+  push({ t, x, y }: CursorSample) {
+    const dt = (t - this.lastAt) / 1000;
+    if (!this.axes || dt > RESET_GAP_SECONDS) {
+      this.axes = [createAxis(this.settings, x), createAxis(this.settings, y)];
+    } else if (dt > 0) {
+      this.axes[0].update(x, dt);
+      this.axes[1].update(y, dt);
+    }
+    this.lastAt = t;
+  }
+
+  /** Cursor position (normalized, clamped) to draw at `now` ms, or null before the first frame. */
+  at(now: number) {
+    if (!this.axes) return null;
+    const sinceFrame = (now - this.lastAt) / 1000;
+    const lookahead = sinceFrame > RESET_GAP_SECONDS ? 0 : Math.min(MAX_LOOKAHEAD_SECONDS, Math.max(0, sinceFrame) + this.settings.predictionMs / 1000);
+    const clamp = (v: number) => Math.max(0, Math.min(1, v));
+    const [ax, ay] = this.axes;
+    return { x: clamp(ax.value + ax.velocity * lookahead), y: clamp(ay.value + ay.velocity * lookahead) };
+  }
+
+  reset() {
+    this.axes = null;
+  }
+}
+
+/**
+ * Run a recorded stream of palm samples through a filter, returning the
+ * cursor drawn at each of `frameTimes` (ms; defaults to the sample times).
+ * Lets filter settings be compared offline against captured hand movement.
+ */
+export function filterStream(samples: CursorSample[], settings: CursorFilterSettings, frameTimes = samples.map(s => s.t)) {
+  const filter = new CursorFilter(settings);
+  const out: CursorSample[] = [];
+  let next = 0;
+  for (const t of frameTimes) {
+    while (next < samples.length && samples[next].t <= t) filter.push(samples[next++]);
+    const point = filter.at(t);
+    if (point) out.push({ t, ...point });
+  }
+  return out;
+}
+
+// Filter settings are kept per device alongside the hand calibration
+const STORAGE_KEY = "catch-the-mouch:cursor-filter";
+
+export function loadFilterSettings(): CursorFilterSettings {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) return DEFAULT_FILTER_SETTINGS;
+    const parsed = cursorFilterSettingsSchema.safeParse(JSON.parse(stored));
+    return parsed.success ? parsed.data : DEFAULT_FILTER_SETTINGS;
+  } catch {
+    return DEFAULT_FILTER_SETTINGS;
+  }
+}
+
+export function saveFilterSettings(settings: CursorFilterSettings) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+}
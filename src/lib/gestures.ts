@@ -0,0 +1,178 @@
+/**
+ * Gesture recognition over MediaPipe hand landmarks. Each camera frame's 21
+ * landmarks (normalized, unmirrored) go in; typed gesture events come out
+ * once per gesture, on the frame it is recognised:
+ *
+ * - pinch: thumb and index tips together (the original hand-mode hit)
+ * - swat: the palm moving faster than SWAT_SPEED
+ * - fist, point (index only), twoFinger (index and middle): held briefly
+ * - openPalm: all four fingers out, held still for OPEN_PALM_HOLD_MS, so the
+ *   open hand players steer with doesn't trigger it
+ */
+
+export type GestureType = 'pinch' | 'swat' | 'fist' | 'openPalm' | 'point' | 'twoFinger';
+
+export interface GestureEvent {
+  type: GestureType;
+  // performance.now() of the frame it was recognised on
+  at: number;
+  // Palm centre, mirrored to match the player's view like HandTrackingView's hand data
+  x: number;
+  y: number;
+  // Palm velocity (normalized units per second, mirrored), set on swats
+  velocity?: { x: number; y: number };
+}
+
+type Landmark = { x: number; y: number };
+type Pose = Exclude<GestureType, 'swat'>;
+
+// Landmark indices
+const WRIST = 0;
+const THUMB_TIP = 4;
+const INDEX_MCP = 5;
+const PINKY_MCP = 17;
+const PALM = [0, 5, 9, 13, 17];
+// [tip, pip] per finger: index, middle, ring, pinky
+const FINGERS: [number, number][] = [[8, 6], [12, 10], [16, 14], [20, 18]];
+
+// Thumb-index tip distance, as a share of palm width, below which the hand is pinching
+const PINCH_RATIO = 0.45;
+// Shortest gap between two pinches (ms)
+const PINCH_COOLDOWN_MS = 120;
+// Palm speed (frame widths per second) that counts as a swat, and the gap before another
+const SWAT_SPEED = 2.5;
+const SWAT_COOLDOWN_MS = 400;
+// How long a pose must hold before it fires (ms); an open palm must also stay under STILL_SPEED
+const POSE_HOLD_MS = 150;
+const OPEN_PALM_HOLD_MS = 800;
+const STILL_SPEED = 0.3;
+// Frames further apart than this (ms) don't give a usable palm velocity
+const MAX_FRAME_GAP_MS = 200;
+
+const dist = (a: Landmark, b: Landmark) => Math.hypot(a.x - b.x, a.y - b.y);
+
+/** Thumb and index tips touching, relative to palm width so it works at any distance from the camera. */
+export function isPinching(landmarks: Landmark[]) {
+  const palmWidth = dist(landmarks[INDEX_MCP], landmarks[PINKY_MCP]);
+  if (palmWidth === 0) return false;
+  return dist(landmarks[THUMB_TIP], landmarks[FINGERS[0][0]]) < palmWidth * PINCH_RATIO;
+}
+
+/** The hand's pose this frame, or null for anything unrecognised. A pinch outranks the finger poses. */
+export function classifyPose(landmarks: Landmark[]): Pose | null {
+  if (isPinching(landmarks)) return 'pinch';
+  const wrist = landmarks[WRIST];
+  // A finger is out when its tip is further from the wrist than its middle joint
+  const [index, middle, ring, pinky] = FINGERS.map(([tip, pip]) => dist(wrist, landmarks[tip]) > dist(wrist, landmarks[pip]));
+  if (!index && !middle && !ring && !pinky) return 'fist';
+  if (index && middle && ring && pinky) return 'openPalm';
+  if (index && !middle && !ring && !pinky) return 'point';
+  if (index && middle && !ring && !pinky) return 'twoFinger';
+  return null;
+}
+
+function palmCenter(landmarks: Landmark[]) {
+  return {
+    x: PALM.reduce((sum, i) => sum + landmarks[i].x, 0) / PALM.length,
+    y: PALM.reduce((sum, i) => sum + landmarks[i].y, 0) / PALM.length,
+  };
+}
+
+/**
+ * Per-hand recognizer state. Feed it every frame with a tracked hand and
+ * reset it when the hand is lost, so a pose held through the loss fires again.
+ */
+export class GestureRecognizer {
+  private lastPalm: (Landmark & { at: number }) | null = null;
+  private pose: Pose | null = null;
+  private poseSince = 0;
+  // The pose already reported for the current hold
+  private firedPose: Pose | null = null;
+  private lastPinchAt = -Infinity;
+  private lastSwatAt = -Infinity;
+
+  /** Recognise gestures in one frame's landmarks at `now` (ms). */
+  update(landmarks: Landmark[], now: number): GestureEvent[] {
+    const events: GestureEvent[] = [];
+    const palm = palmCenter(landmarks);
+    const at = { at: now, x: 1 - palm.x, y: palm.y };
+
+    let speed = 0;
+    let velocity = { x: 0, y: 0 };
+    if (this.lastPalm && now - this.lastPalm.at > 0 && now - this.lastPalm.at <= MAX_FRAME_GAP_MS) {
+      const dt = (now - this.lastPalm.at) / 1000;
+      velocity = { x: -(palm.x - this.lastPalm.x) / dt, y: (palm.y - this.lastPalm.y) / dt };
+      speed = Math.hypot(velocity.x, velocity.y);
+    }
+    this.lastPalm = { ...palm, at: now };
+
+    if (speed > SWAT_SPEED && now - this.lastSwatAt > SWAT_COOLDOWN_MS) {
+      this.lastSwatAt = now;
+      events.push({ type: 'swat', ...at, velocity });
+    }
+
+    const pose = classifyPose(landmarks);
+    // An open palm only counts while it is held still
+    if (pose !== this.pose || (pose === 'openPalm' && speed > STILL_SPEED)) {
+      this.pose = pose;
+      this.poseSince = now;
+      if (pose !== this.firedPose) this.firedPose = null;
+    }
+    if (pose && pose !== this.firedPose) {
+      const hold = pose === 'pinch' ? 0 : pose === 'openPalm' ? OPEN_PALM_HOLD_MS : POSE_HOLD_MS;
+      if (now - this.poseSince >= hold) {
+        this.firedPose = pose;
+        if (pose !== 'pinch' || now - this.lastPinchAt > PINCH_COOLDOWN_MS) {
+          if (pose === 'pinch') this.lastPinchAt = now;
+          events.push({ type: pose, ...at });
+        }
+      }
+    }
+    return events;
+  }
+
+  reset() {
+    this.lastPalm = null;
+    this.pose = null;
+    this.firedPose = null;
+  }
+}
+
+/**
+ * Recognizers for several hands at once. MediaPipe doesn't keep hands in a
+ * stable order between frames, so each hand goes to the recognizer that last
+ * saw a palm nearest to it; recognizers left without a hand are reset.
+ */
+interface HandSlot {
+  recognizer: GestureRecognizer;
+  // Where it last saw its hand, null while it has none
+  palm: Landmark | null;
+}
+
+export class HandGestureTracker {
+  private slots: HandSlot[];
+
+  constructor(maxHands: number) {
+    this.slots = Array.from({ length: maxHands }, () => ({ recognizer: new GestureRecognizer(), palm: null }));
+  }
+
+  /** Recognise gestures for every tracked hand this frame; returns the events per hand, in input order. */
+  update(hands: Landmark[][], now: number): GestureEvent[][] {
+    const free = [...this.slots];
+    const events = hands.map(landmarks => {
+      const palm = palmCenter(landmarks);
+      // A slot that hasn't seen a hand yet only takes one when nothing is closer
+      const distance = (slot: HandSlot) => (slot.palm ? dist(slot.palm, palm) : 2);
+      const slot = free.reduce<HandSlot | null>((best, s) => (!best || distance(s) < distance(best) ? s : best), null);
+      if (!slot) return [];
+      free.splice(free.indexOf(slot), 1);
+      slot.palm = palm;
+      return slot.recognizer.update(landmarks, now);
+    });
+    for (const slot of free) {
+      slot.palm = null;
+      slot.recognizer.reset();
+    }
+    return events;
+  }
+}
@@ -0,0 +1,74 @@
+import { z } from "zod";
+
+/** The part of the camera frame (normalized 0..1) the player can comfortably reach. */
+export interface ReachBox {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+type Point = { x: number; y: number };
+
+// Without a calibration the whole camera frame maps onto the field
+export const FULL_FRAME: ReachBox = { minX: 0, minY: 0, maxX: 1, maxY: 1 };
+// A trace narrower than this on either axis is treated as a failed calibration
+export const MIN_REACH_SPAN = 0.15;
+// Share of samples dropped at each edge, so a stray detection can't stretch the box
+const EDGE_TRIM = 0.03;
+// Calibrations are kept per device, since they depend on where the camera sits
+const STORAGE_KEY = "catch-the-mouch:hand-reach";
+
+const reachBoxSchema = z
+  .object({
+    minX: z.number().min(0).max(1),
+    minY: z.number().min(0).max(1),
+    maxX: z.number().min(0).max(1),
+    maxY: z.number().min(0).max(1),
+  })
+  .refine(box => box.maxX - box.minX >= MIN_REACH_SPAN && box.maxY - box.minY >= MIN_REACH_SPAN, "reach box too small");
+
+// Value at fraction `at` through the sorted values
+function trimmed(values: number[], at: number) {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.round(at * (sorted.length - 1))];
+}
+
+/** Fit a reach box around a traced path of palm positions, or null if it covers too little. */
+export function reachBoxFromTrace(trace: Point[]): ReachBox | null {
+  if (trace.length === 0) return null;
+  const xs = trace.map(p => p.x);
+  const ys = trace.map(p => p.y);
+  const box = {
+    minX: trimmed(xs, EDGE_TRIM),
+    minY: trimmed(ys, EDGE_TRIM),
+    maxX: trimmed(xs, 1 - EDGE_TRIM),
+    maxY: trimmed(ys, 1 - EDGE_TRIM),
+  };
+  const parsed = reachBoxSchema.safeParse(box);
+  return parsed.success ? box : null;
+}
+
+/** Map a palm position inside the reach box onto the full field (0..1), clamped at its edges. */
+export function mapToReach(box: ReachBox, point: Point) {
+  const clamp = (v: number) => Math.max(0, Math.min(1, v));
+  return {
+    x: clamp((point.x - box.minX) / (box.maxX - box.minX)),
+    y: clamp((point.y - box.minY) / (box.maxY - box.minY)),
+  };
+}
+
+export function loadReachBox(): ReachBox | null {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) return null;
+    const parsed = reachBoxSchema.safeParse(JSON.parse(stored));
+    return parsed.success ? (parsed.data as ReachBox) : null;
+  } catch {
+    return null;
+  }
+}
+
+export function saveReachBox(box: ReachBox) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(box));
+}
@@ -0,0 +1,48 @@
+import { ReachBox } from "./handCalibration";
+
+/**
+ * How tracked hands map onto bats: one hand and bat; one player with a bat in
+ * each hand; or two players sharing the webcam, each standing on their own
+ * side of the frame with their own bat (co-op adds up their scores, versus
+ * pits them against each other).
+ */
+export type HandLayout = 'one' | 'dual' | 'coop' | 'versus';
+export type Handedness = 'Left' | 'Right';
+
+export const HAND_LAYOUTS: Record<HandLayout, { label: string; hands: number; players: number }> = {
+  one: { label: 'One hand', hands: 1, players: 1 },
+  dual: { label: 'Two bats', hands: 2, players: 1 },
+  coop: { label: 'Co-op', hands: 2, players: 2 },
+  versus: { label: 'Versus', hands: 2, players: 2 },
+};
+
+// Bat glow and HUD colour per player
+export const PLAYER_COLORS = ['#22c55e', '#f97316'];
+
+/**
+ * The bat a hand drives: by handedness for two bats (left hand, first bat),
+ * by which half of the mirrored frame it is in for two players.
+ */
+export function batForHand(layout: HandLayout, handedness: Handedness, x: number) {
+  if (layout === 'one') return 0;
+  if (layout === 'dual') return handedness === 'Left' ? 0 : 1;
+  return x < 0.5 ? 0 : 1;
+}
+
+/** The player who swings a bat; both bats are the one player's in the single-player layouts. */
+export function playerForBat(layout: HandLayout, bat: number) {
+  return HAND_LAYOUTS[layout].players > 1 ? bat : 0;
+}
+
+/** Bat glow colours, one per bat; a lone player's bats are drawn plain. */
+export function batColors(layout: HandLayout) {
+  const { hands, players } = HAND_LAYOUTS[layout];
+  return Array.from({ length: hands }, (_, bat) => (players > 1 ? PLAYER_COLORS[bat] : null));
+}
+
+/** The part of the reach box a bat's hand is mapped from: two players split it down the middle. */
+export function reachForBat(layout: HandLayout, reach: ReachBox, bat: number): ReachBox {
+  if (HAND_LAYOUTS[layout].players === 1) return reach;
+  const midX = (reach.minX + reach.maxX) / 2;
+  return bat === 0 ? { ...reach, maxX: midX } : { ...reach, minX: midX };
+}
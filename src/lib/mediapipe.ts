@@ -0,0 +1,44 @@
+// The MediaPipe packages are Closure bundles without real module exports: the
+// bundle attaches its API to its `this`. Rollup runs it with `this` as the
+// global object, but Vite's dev pre-bundling wraps it as CommonJS, so there the
+// API lands on the module's exports instead
+import * as cameraUtils from "@mediapipe/camera_utils";
+import * as drawingUtils from "@mediapipe/drawing_utils";
+import * as handsSolution from "@mediapipe/hands";
+
+type MediaPipe = typeof cameraUtils & typeof drawingUtils & typeof handsSolution;
+type Exports = Partial<MediaPipe> & { default?: Partial<MediaPipe> };
+
+// An export from the module (or its CommonJS default), falling back to globalThis
+function resolve<K extends keyof MediaPipe>(module: Exports, name: K): MediaPipe[K] {
+  return module[name] ?? module.default?.[name] ?? (globalThis as unknown as MediaPipe)[name];
+}
+
+export const Camera = resolve(cameraUtils, "Camera");
+export const drawConnectors = resolve(drawingUtils, "drawConnectors");
+export const drawLandmarks = resolve(drawingUtils, "drawLandmarks");
+export const HAND_CONNECTIONS = resolve(handsSolution, "HAND_CONNECTIONS");
+const Hands = resolve(handsSolution, "Hands");
+export type { Options as HandsOptions, Results as HandsResults } from "@mediapipe/hands";
+
+// Where the vite config serves and emits the hands model and WASM files
+const HANDS_ASSET_DIR = `${import.meta.env.BASE_URL}mediapipe/hands/`;
+
+/**
+ * Create a Hands solution that loads its model and WASM from our own build
+ * output. Resolves once they are loaded, so the first frame sent is tracked
+ * rather than waiting on the download.
+ */
+export async function loadHands(options: handsSolution.Options) {
+  const hands = new Hands({
+    locateFile: file => `${HANDS_ASSET_DIR}${file}`,
+  });
+  hands.setOptions(options);
+  try {
+    await hands.initialize();
+  } catch (err) {
+    hands.close();
+    throw err;
+  }
+  return hands;
+}
@@ -1,10 +1,16 @@
-import { useState, useContext } from "react";
+import { useState, useContext, useEffect } from "react";
+import { useSearchParams } from "react-router-dom";
+import { useAccount } from "wagmi";
 import StartScreen from "@/components/StartScreen";
 import BirdSelectScreen from "@/components/InsectSelectScreen";
 import GameScreen from "@/components/GameScreen";
 import GameScreenMultiplayer from "@/components/GameScreenMultiplayer";
 import LeaderboardScreen from "@/components/LeaderboardScreen";
 import { SessionParamsContext } from "../App";
+import { DEFAULT_DIFFICULTY, DifficultyId } from "@/game/difficulty";
+import { SoloMode } from "@/game/types";
+import { Level, decodeLevel, getLevel } from "@/game/levels";
+import { useCampaignProgress } from "@/hooks/use-campaign-progress";
 
 const PASSWORD = import.meta.env.VITE_MULTISYNQ_SESSION_PASSWORD || 'catchbirds';
 
@@ -12,13 +18,25 @@ const Index = () => {
   const [currentScreen, setCurrentScreen] = useState<'start' | 'select' | 'game' | 'leaderboard'>('start');
   const [gameMode, setGameMode] = useState<'singleplayer' | 'multiplayer' | null>(null);
   const [multiplayerOptions, setMultiplayerOptions] = useState<{ isHost?: boolean; roomId?: string } | null>(null);
+  const [difficulty, setDifficulty] = useState<DifficultyId>(DEFAULT_DIFFICULTY);
+  const [soloMode, setSoloMode] = useState<SoloMode>('round');
+  const [levelId, setLevelId] = useState<string | null>(null);
+  // A level opened from an editor share link rather than the campaign
+  const [sharedLevel, setSharedLevel] = useState<Level | null>(null);
+  const [searchParams] = useSearchParams();
+  const { address } = useAccount();
+  const { stars: campaignStars, recordStars } = useCampaignProgress(address);
   const { setSessionName, setSessionPassword } = useContext(SessionParamsContext);
 
   const handleStart = () => {
     setCurrentScreen('select');
   };
 
-  const handleStartGame = (mode: 'singleplayer' | 'multiplayer', options?: { isHost?: boolean; roomId?: string }) => {
+  const handleStartGame = (mode: 'singleplayer' | 'multiplayer', options?: { isHost?: boolean; roomId?: string; difficulty?: DifficultyId; mode?: SoloMode; levelId?: string }) => {
+    setDifficulty(options?.difficulty ?? DEFAULT_DIFFICULTY);
+    setSoloMode(options?.mode ?? 'round');
+    setLevelId(options?.levelId ?? null);
+    setSharedLevel(null);
     if (mode === 'multiplayer') {
       if (options?.isHost) {
         // Host: create random session name
@@ -40,9 +58,24 @@ const Index = () => {
     setCurrentScreen('game');
   };
 
+  // Share links (?level=...) open straight into the shared level
+  useEffect(() => {
+    const encoded = searchParams.get('level');
+    if (!encoded) return;
+    try {
+      setSharedLevel(decodeLevel(encoded));
+      setSoloMode('shared');
+      setGameMode('singleplayer');
+      setCurrentScreen('game');
+    } catch (err) {
+      console.error("❌ Invalid shared level:", err);
+    }
+  }, [searchParams]);
+
   const handleBackToMenu = () => {
     setCurrentScreen('start');
     setGameMode(null);
+    setSharedLevel(null);
     setMultiplayerOptions(null);
     setSessionName(null);
     setSessionPassword(null);
@@ -59,13 +92,23 @@ const Index = () => {
   return (
     <div className="min-h-screen overflow-hidden">
       {currentScreen === 'start' && <StartScreen onStart={handleStart} />}
-      {currentScreen === 'select' && <BirdSelectScreen onStartGame={handleStartGame} onShowLeaderboard={handleShowLeaderboard} />}
-      {currentScreen === 'game' && gameMode === 'singleplayer' && <GameScreen onBackToMenu={handleBackToMenu} />}
+      {currentScreen === 'select' && <BirdSelectScreen onStartGame={handleStartGame} onShowLeaderboard={handleShowLeaderboard} campaignStars={campaignStars} />}
+      {currentScreen === 'game' && gameMode === 'singleplayer' && (
+        <GameScreen
+          onBackToMenu={handleBackToMenu}
+          difficulty={difficulty}
+          mode={soloMode}
+          level={soloMode === 'campaign' ? getLevel(levelId) : soloMode === 'shared' ? sharedLevel : undefined}
+          // Shared levels aren't part of the campaign, so they earn no progress
+          onLevelComplete={soloMode === 'campaign' ? recordStars : undefined}
+        />
+      )}
       {currentScreen === 'game' && gameMode === 'multiplayer' && (
         <GameScreenMultiplayer
           onBackToMenu={handleBackToMenu}
           isHost={multiplayerOptions?.isHost}
           roomId={multiplayerOptions?.roomId}
+          difficulty={difficulty}
         />
       )}
       {currentScreen === 'leaderboard' && <LeaderboardScreen onBack={handleBackFromLeaderboard} />}
@@ -0,0 +1,365 @@
+import { useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Toaster } from "@/components/ui/toaster";
+import { useToast } from "@/hooks/use-toast";
+import { useGameEngine } from "@/hooks/use-game-engine";
+import { FlightBehaviour, insects } from "@/game/catalog";
+import { DifficultyId, difficulties, getDifficulty } from "@/game/difficulty";
+import { WORLD_HEIGHT } from "@/game/engine";
+import { Level, MAX_STARS, Objective, ScriptEvent, encodeLevel, levelInsects, levelSchema, levelScript } from "@/game/levels";
+
+// Anything but bosses can be scripted; a boss needs the round's boss phase to fight back
+const SCRIPTABLE = insects.filter(insect => !insect.boss);
+const SIDES = ['Left', 'Right', 'Top', 'Bottom'];
+
+// One editable starting point per flight type: the first catalog insect's parameters, else a default
+const FLIGHT_PRESETS: Partial<Record<FlightBehaviour['type'], FlightBehaviour>> = {
+  straight: { type: 'straight' },
+  wave: { type: 'wave', frequency: 0.03, amplitude: 40 },
+};
+insects.forEach(insect => {
+  FLIGHT_PRESETS[insect.flight.type] ??= insect.flight;
+});
+
+const OBJECTIVE_DEFAULTS: Record<Objective['type'], Objective> = {
+  score: { type: 'score', points: 30, noFriendly: false },
+  catch: { type: 'catch', insect: SCRIPTABLE[0].id, count: 5 },
+  noMisses: { type: 'noMisses', catches: 10 },
+};
+
+const newLevel = (): Level => ({
+  id: 'my-level',
+  name: 'My Level',
+  duration: 30,
+  difficulty: 'normal',
+  background: '/background.jpg',
+  insects: {},
+  script: [],
+  objective: OBJECTIVE_DEFAULTS.score,
+  stars: [45, 60],
+});
+
+const inputClass = "border rounded px-2 py-1 text-black font-press-start text-xs w-full";
+
+/**
+ * Designer tool at /editor: place timed spawn events on a timeline, preview
+ * them on the game canvas, and export, import or share the level. Levels are
+ * checked against the same schema as the campaign's levels.json.
+ */
+const LevelEditor = () => {
+  const { toast } = useToast();
+  const [level, setLevel] = useState<Level>(newLevel);
+  const [selected, setSelected] = useState<number | null>(null);
+  const [previewing, setPreviewing] = useState(false);
+  const [previewTime, setPreviewTime] = useState(0);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const engine = useGameEngine({ containerRef, canvasRef, running: previewing });
+
+  const script = level.script ?? [];
+  const event = selected !== null ? script[selected] : null;
+
+  const update = (changes: Partial<Level>) => setLevel(prev => ({ ...prev, ...changes }));
+
+  const updateEvent = (index: number, changes: Partial<ScriptEvent>) => {
+    update({ script: script.map((e, i) => (i === index ? { ...e, ...changes } : e)) });
+  };
+
+  const addEvent = (at: number) => {
+    const insect = SCRIPTABLE[0];
+    update({ script: [...script, { at: Math.round(at * 10) / 10, insect: insect.id, count: 1, side: 0, y: WORLD_HEIGHT / 2 }] });
+    setSelected(script.length);
+  };
+
+  const removeEvent = (index: number) => {
+    update({ script: script.filter((_, i) => i !== index) });
+    setSelected(null);
+  };
+
+  // Replay the level from the start on the preview canvas, set up as GameScreen plays it
+  const startPreview = () => {
+    engine.setDifficulty(getDifficulty(level.difficulty));
+    engine.roundDuration = level.duration;
+    engine.insects = levelInsects(level);
+    engine.script = levelScript(level);
+    engine.reset();
+    setPreviewTime(0);
+    setPreviewing(true);
+  };
+
+  useEffect(() => {
+    if (!previewing) return;
+    const interval = setInterval(() => {
+      setPreviewTime(engine.time);
+      if (engine.time >= level.duration) setPreviewing(false);
+    }, 100);
+    return () => clearInterval(interval);
+  }, [engine, previewing, level.duration]);
+
+  // Validate before anything leaves the editor, so exports always load back in
+  const validLevel = () => {
+    const result = levelSchema.safeParse(level);
+    if (result.success) return result.data;
+    toast({
+      title: "Level is not valid",
+      description: result.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; '),
+      variant: "destructive",
+    });
+    return null;
+  };
+
+  const exportJson = () => {
+    const valid = validLevel();
+    if (!valid) return;
+    const blob = new Blob([JSON.stringify(valid, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${valid.id}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const importJson = async (file: File) => {
+    try {
+      const parsed = levelSchema.parse(JSON.parse(await file.text()));
+      setLevel({ ...parsed, script: parsed.script ?? [] });
+      setSelected(null);
+      setPreviewing(false);
+    } catch (err) {
+      console.error("❌ Failed to import level:", err);
+      toast({ title: "Import failed", description: "That file is not a valid level", variant: "destructive" });
+    }
+  };
+
+  const shareLink = () => {
+    const valid = validLevel();
+    if (!valid) return null;
+    return `${window.location.origin}/?level=${encodeLevel(valid)}`;
+  };
+
+  const copyShareLink = async () => {
+    const link = shareLink();
+    if (!link) return;
+    await navigator.clipboard.writeText(link);
+    toast({ title: "Link copied", description: "Anyone with the link can play this level" });
+  };
+
+  const playLevel = () => {
+    const link = shareLink();
+    if (link) window.location.href = link;
+  };
+
+  // Click on the empty track to add an event at that time
+  const handleTrackClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    addEvent(((e.clientX - rect.left) / rect.width) * level.duration);
+  };
+
+  const objective = level.objective;
+
+  return (
+    <div className="min-h-screen w-full bg-background text-foreground font-press-start p-4 flex flex-col gap-4 select-none">
+      <div className="flex flex-wrap items-center gap-2">
+        <Button asChild variant="outline" className="font-press-start">
+          <a href="/">Back</a>
+        </Button>
+        <h1 className="text-xl sm:text-2xl font-bold flex-1 text-center">Level Editor</h1>
+        <Button onClick={previewing ? () => setPreviewing(false) : startPreview} className="font-press-start">
+          {previewing ? 'Stop' : 'Preview'}
+        </Button>
+        <Button onClick={playLevel} className="font-press-start">Play</Button>
+        <Button onClick={exportJson} variant="outline" className="font-press-start">Export</Button>
+        <Button onClick={() => fileInputRef.current?.click()} variant="outline" className="font-press-start">Import</Button>
+        <Button onClick={copyShareLink} variant="outline" className="font-press-start">Share Link</Button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={e => {
+            const file = e.target.files?.[0];
+            if (file) importJson(file);
+            e.target.value = '';
+          }}
+        />
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-4 gap-4">
+        {/* Level settings */}
+        <div className="bg-card border rounded-lg p-3 flex flex-col gap-2 text-xs">
+          <label>Name<input className={inputClass} value={level.name} onChange={e => update({ name: e.target.value })} /></label>
+          <label>Id<input className={inputClass} value={level.id} onChange={e => update({ id: e.target.value })} /></label>
+          <label>
+            Duration (s)
+            <input
+              type="number"
+              min={5}
+              className={inputClass}
+              value={level.duration}
+              onChange={e => update({ duration: Math.max(1, Number(e.target.value)) })}
+            />
+          </label>
+          <label>
+            Difficulty
+            <select className={inputClass} value={level.difficulty} onChange={e => update({ difficulty: e.target.value as DifficultyId })}>
+              {Object.values(difficulties).map(preset => <option key={preset.id} value={preset.id}>{preset.label}</option>)}
+            </select>
+          </label>
+          <label>
+            Objective
+            <select
+              className={inputClass}
+              value={objective.type}
+              onChange={e => update({ objective: OBJECTIVE_DEFAULTS[e.target.value as Objective['type']] })}
+            >
+              <option value="score">Score</option>
+              <option value="catch">Catch</option>
+              <option value="noMisses">No misses</option>
+            </select>
+          </label>
+          {objective.type === 'score' && (
+            <>
+              <label>Points<input type="number" className={inputClass} value={objective.points} onChange={e => update({ objective: { ...objective, points: Number(e.target.value) } })} /></label>
+              <label className="flex items-center gap-2">
+                <input type="checkbox" checked={objective.noFriendly} onChange={e => update({ objective: { ...objective, noFriendly: e.target.checked } })} />
+                No friendly hits
+              </label>
+            </>
+          )}
+          {objective.type === 'catch' && (
+            <>
+              <label>
+                Insect
+                <select className={inputClass} value={objective.insect} onChange={e => update({ objective: { ...objective, insect: e.target.value } })}>
+                  {SCRIPTABLE.map(insect => <option key={insect.id} value={insect.id}>{insect.name}</option>)}
+                </select>
+              </label>
+              <label>Count<input type="number" className={inputClass} value={objective.count} onChange={e => update({ objective: { ...objective, count: Number(e.target.value) } })} /></label>
+            </>
+          )}
+          {objective.type === 'noMisses' && (
+            <label>Catches<input type="number" className={inputClass} value={objective.catches} onChange={e => update({ objective: { ...objective, catches: Number(e.target.value) } })} /></label>
+          )}
+          {level.stars.map((threshold, i) => (
+            <label key={i}>
+              {'★'.repeat(i + 2)} score
+              <input
+                type="number"
+                className={inputClass}
+                value={threshold}
+                onChange={e => update({ stars: level.stars.map((s, j) => (j === i ? Number(e.target.value) : s)) })}
+              />
+            </label>
+          ))}
+          <p className="text-muted-foreground">Up to {MAX_STARS} stars: one for the objective, one per score.</p>
+        </div>
+
+        {/* Preview and timeline */}
+        <div className="lg:col-span-2 flex flex-col gap-3">
+          <div ref={containerRef} className="w-full aspect-[16/9] relative overflow-hidden rounded-lg border-4 border-gray-300">
+            <canvas ref={canvasRef} className="absolute inset-0 w-full h-full" />
+          </div>
+          <div className="text-xs text-muted-foreground">
+            {previewing ? `Preview ${previewTime.toFixed(1)}s / ${level.duration}s` : 'Click the track to add a spawn'}
+          </div>
+          <div className="relative h-10 bg-card border rounded cursor-crosshair" onClick={handleTrackClick}>
+            {previewing && (
+              <div className="absolute top-0 bottom-0 w-0.5 bg-red-500" style={{ left: `${Math.min(100, (previewTime / level.duration) * 100)}%` }} />
+            )}
+            {script.map((e, i) => (
+              <button
+                key={i}
+                title={`${e.at}s ${e.insect} x${e.count}`}
+                onClick={click => {
+                  click.stopPropagation();
+                  setSelected(i);
+                }}
+                className={`absolute top-1 bottom-1 w-2 -ml-1 rounded ${i === selected ? 'bg-yellow-400' : 'bg-primary'}`}
+                style={{ left: `${Math.min(100, (e.at / level.duration) * 100)}%` }}
+              />
+            ))}
+          </div>
+        </div>
+
+        {/* Selected spawn */}
+        <div className="bg-card border rounded-lg p-3 flex flex-col gap-2 text-xs">
+          {!event ? (
+            <p className="text-muted-foreground">Select a spawn on the timeline to edit it.</p>
+          ) : (
+            <>
+              <label>
+                Time (s)
+                <input
+                  type="number"
+                  step={0.1}
+                  min={0}
+                  className={inputClass}
+                  value={event.at}
+                  onChange={e => updateEvent(selected, { at: Math.max(0, Number(e.target.value)) })}
+                />
+              </label>
+              <label>
+                Insect
+                <select className={inputClass} value={event.insect} onChange={e => updateEvent(selected, { insect: e.target.value })}>
+                  {SCRIPTABLE.map(insect => <option key={insect.id} value={insect.id}>{insect.name}</option>)}
+                </select>
+              </label>
+              <label>
+                Side
+                <select className={inputClass} value={event.side ?? ''} onChange={e => updateEvent(selected, { side: e.target.value === '' ? undefined : Number(e.target.value) })}>
+                  <option value="">Random</option>
+                  {SIDES.map((side, i) => <option key={side} value={i}>{side}</option>)}
+                </select>
+              </label>
+              <label>
+                Height (0-{WORLD_HEIGHT})
+                <input
+                  type="number"
+                  min={0}
+                  max={WORLD_HEIGHT}
+                  className={inputClass}
+                  value={event.y ?? ''}
+                  onChange={e => updateEvent(selected, { y: e.target.value === '' ? undefined : Number(e.target.value) })}
+                />
+              </label>
+              <label>
+                Flock size
+                <input
+                  type="number"
+                  min={1}
+                  max={8}
+                  className={inputClass}
+                  value={event.count}
+                  onChange={e => updateEvent(selected, { count: Math.max(1, Math.round(Number(e.target.value))) })}
+                />
+              </label>
+              <label>
+                Behaviour
+                <select
+                  className={inputClass}
+                  value={event.flight?.type ?? ''}
+                  onChange={e => updateEvent(selected, { flight: e.target.value === '' ? undefined : FLIGHT_PRESETS[e.target.value as FlightBehaviour['type']] })}
+                >
+                  <option value="">Species default</option>
+                  {Object.keys(FLIGHT_PRESETS).map(type => <option key={type} value={type}>{type}</option>)}
+                </select>
+              </label>
+              {event.count > 1 && event.flight && (
+                <p className="text-muted-foreground">Flocks fly as a group, so the behaviour only applies to single spawns.</p>
+              )}
+              <Button onClick={() => removeEvent(selected)} variant="destructive" className="font-press-start text-xs">
+                Delete
+              </Button>
+            </>
+          )}
+        </div>
+      </div>
+      <Toaster />
+    </div>
+  );
+};
+
+export default LevelEditor;
@@ -1,16 +1,104 @@
 import { supabase } from "@/lib/supabaseClient";
 
+// Every swing, hit or miss, so accuracy can be tracked across games. Swings
+// are extra detail on a result that is already saved, so a failure is only
+// logged rather than stopping the rest of the save
+async function saveSwingHistory(playerScoreId, swingHistory) {
+  if (!swingHistory || swingHistory.length === 0) return;
+  const swingRows = swingHistory.map(swing => ({
+    player_score_id: playerScoreId,
+    x: Math.round(swing.x),
+    y: Math.round(swing.y),
+    catches: swing.catches,
+    hit: swing.catches > 0,
+    swung_at: new Date(swing.timestamp).toISOString()
+  }));
+  const { error: swingError } = await supabase.from('swing_history').insert(swingRows);
+  if (swingError) console.error("❌ Failed to save swing history:", swingError);
+}
+
+// Postgres error code for a unique constraint violation
+const UNIQUE_VIOLATION = '23505';
+
+// Whether a wallet has already started its ranked run for the given day's Daily Mouch
+export async function hasDailyAttempt(dailyDate, playerAddress) {
+  const { count, error } = await supabase
+    .from('daily_attempts')
+    .select('id', { count: 'exact', head: true })
+    .eq('player_address', playerAddress)
+    .eq('daily_date', dailyDate);
+  if (error) throw error;
+  return count > 0;
+}
+
+// Claim a wallet's ranked Daily Mouch run as it starts, so leaving mid-run still
+// uses it up. Returns the attempt id, or null if the day's run was already
+// claimed (the database allows one per wallet per day)
+export async function startDailyAttempt(dailyDate, playerAddress) {
+  const { data, error } = await supabase
+    .from('daily_attempts')
+    .insert([{ player_address: playerAddress, daily_date: dailyDate }])
+    .select('id')
+    .single();
+  if (error?.code === UNIQUE_VIOLATION) return null;
+  if (error) throw error;
+  return data.id;
+}
+
+// Ranked Daily Mouch runs for one day, best first; only scores linked from an attempt count
+export async function getDailyLeaderboard(dailyDate, limit = 10) {
+  const { data, error } = await supabase
+    .from('player_scores')
+    .select('player_address, final_score, daily_attempts!inner(daily_date)')
+    .eq('daily_attempts.daily_date', dailyDate)
+    .order('final_score', { ascending: false })
+    .limit(limit);
+  if (error) throw error;
+  return data.map(row => ({ player: row.player_address, score: row.final_score }));
+}
+
+// Best stars per campaign level id for a wallet
+export async function getCampaignProgress(playerAddress) {
+  const { data, error } = await supabase
+    .from('campaign_progress')
+    .select('level_id, stars')
+    .eq('player_address', playerAddress);
+  if (error) throw error;
+  return Object.fromEntries(data.map(row => [row.level_id, row.stars]));
+}
+
+// Store a level's stars; callers only save an improvement on the wallet's best
+export async function saveLevelStars(playerAddress, levelId, stars) {
+  const { error } = await supabase
+    .from('campaign_progress')
+    .upsert([{
+      player_address: playerAddress,
+      level_id: levelId,
+      stars,
+      updated_at: new Date().toISOString()
+    }], { onConflict: 'player_address,level_id' });
+  if (error) throw error;
+}
+
 export async function saveGameData({
   sessionType,
   hostAddress,
   score,
   hits,
   hitHistory,
+  swingHistory = [],
   durationSec = 60,
   playerId = null, // for multiplayer
   gameNumber = 1,  // for multiplayer
   sessionId = null, // for multiplayer session management
   allPlayersData = null, // for multiplayer all players data
+  difficulty = 'normal', // difficulty preset id, for splitting leaderboards
+  survivalSec = null, // for endless runs (session_type 'endless')
+  waveReached = null, // for endless runs
+  seed = null, // field seed, for replaying daily runs
+  dailyDate = null, // set only on a wallet's ranked Daily Mouch run
+  dailyAttemptId = null, // the ranked run's attempt, from startDailyAttempt
+  levelId = null, // campaign level played (session_type 'campaign')
 }) {
   const now = new Date().toISOString();
 
@@ -30,6 +118,7 @@ export async function saveGameData({
         session_id: sessionId, 
         game_number: gameNumber, 
         duration_sec: durationSec,
+        difficulty,
         ended_at: now 
       }])
       .select()
@@ -61,12 +150,16 @@ export async function saveGameData({
           const hitRows = playerData.hitHistory.map(hit => ({
             player_score_id: playerScore.id,
             bird_type: hit.birdType,
-            points: hit.points,
+            points: Math.round(hit.points),
+            multiplier: hit.multiplier ?? 1,
+            is_penalty: hit.points < 0,
             caught_at: new Date(hit.timestamp).toISOString()
           }));
           const { error: hitError } = await supabase.from('hit_history').insert(hitRows);
           if (hitError) throw hitError;
         }
+
+        await saveSwingHistory(playerScore.id, playerData.swingHistory);
       }
     }
   } else {
@@ -90,6 +183,12 @@ export async function saveGameData({
         session_id: session.id, 
         game_number: gameNumber, 
         duration_sec: durationSec,
+        difficulty,
+        survival_sec: survivalSec,
+        wave_reached: waveReached,
+        seed,
+        daily_date: dailyDate,
+        level_id: levelId,
         ended_at: now 
       }])
       .select()
@@ -110,18 +209,32 @@ export async function saveGameData({
       .single();
     if (playerScoreError) throw playerScoreError;
 
-    // 4. Insert hit history
+    // 4. Link a ranked daily run's score to the attempt it used up
+    if (dailyAttemptId) {
+      const { error: attemptError } = await supabase
+        .from('daily_attempts')
+        .update({ player_score_id: playerScore.id })
+        .eq('id', dailyAttemptId);
+      if (attemptError) throw attemptError;
+    }
+
+    // 5. Insert hit history
     if (hitHistory.length > 0) {
       const hitRows = hitHistory.map(hit => ({
         player_score_id: playerScore.id,
         bird_type: hit.birdType,
-        points: hit.points,
+        points: Math.round(hit.points),
+        multiplier: hit.multiplier ?? 1,
+        is_penalty: hit.points < 0,
         caught_at: new Date(hit.timestamp).toISOString()
       }));
       const { error: hitError } = await supabase.from('hit_history').insert(hitRows);
       if (hitError) throw hitError;
     }
 
+    // 6. Insert swing history
+    await saveSwingHistory(playerScore.id, swingHistory);
+
     // Return session ID for multiplayer
     return session.id;
   }
@@ -4,6 +4,7 @@ const RELAYER_URL = import.meta.env.VITE_RELAYER_URL || "https://catchthemouchba
 
 export interface HitData {
   player: string;
+  // The relayer records an unsigned amount on chain, so penalties are never sent
   points: number;
 }
 
@@ -27,6 +28,9 @@ export class HitService {
   async recordHit(hitData: HitData): Promise<{ success: boolean; hash?: string; error?: string }> {
     try {
       console.log("🎯 Recording hit:", hitData);
+      if (!Number.isInteger(hitData.points) || hitData.points <= 0) {
+        throw new Error(`Invalid hit points: ${hitData.points}`);
+      }
 
       const response = await fetch(`${RELAYER_URL}/recordHit`, {
         method: "POST",
@@ -0,0 +1,22 @@
+-- Every bat swing, hit or miss, kept with the player's score so accuracy can
+-- be tracked across games
+create table if not exists public.swing_history (
+  id bigint generated by default as identity primary key,
+  player_score_id bigint not null references public.player_scores (id) on delete cascade,
+  -- Bat position in world units
+  x integer not null,
+  y integer not null,
+  catches integer not null default 0,
+  hit boolean not null default false,
+  swung_at timestamptz not null
+);
+
+create index if not exists swing_history_player_score_id_idx on public.swing_history (player_score_id);
+
+alter table public.swing_history enable row level security;
+
+create policy "Swings can be recorded" on public.swing_history
+  for insert to anon, authenticated with check (true);
+
+create policy "Swings are readable" on public.swing_history
+  for select to anon, authenticated using (true);
@@ -0,0 +1,5 @@
+-- Combo multiplier a hit scored with (multi-kill bonuses make it fractional),
+-- and whether it was a friendly insect swatted for negative points
+alter table public.hit_history
+  add column if not exists multiplier real not null default 1,
+  add column if not exists is_penalty boolean not null default false;
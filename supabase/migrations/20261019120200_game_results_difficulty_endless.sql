@@ -0,0 +1,6 @@
+-- Difficulty preset a game was played on, and how long an endless run lasted
+-- and the wave it reached (null for timed rounds)
+alter table public.game_results
+  add column if not exists difficulty text not null default 'normal',
+  add column if not exists survival_sec integer,
+  add column if not exists wave_reached integer;
@@ -0,0 +1,8 @@
+-- Field seed a game was played on, so daily runs can be replayed, and the
+-- Daily Mouch day for a wallet's ranked daily run (null otherwise)
+alter table public.game_results
+  add column if not exists seed bigint,
+  add column if not exists daily_date date;
+
+create index if not exists game_results_daily_date_idx on public.game_results (daily_date)
+  where daily_date is not null;
@@ -0,0 +1,28 @@
+-- One ranked Daily Mouch run per wallet per day. The attempt is claimed when
+-- the run starts, so leaving mid-run still uses it up, and is linked to the
+-- run's score once the run is saved. The daily leaderboard only reads scores
+-- linked from here.
+create table if not exists public.daily_attempts (
+  id bigint generated by default as identity primary key,
+  player_address text not null,
+  daily_date date not null,
+  started_at timestamptz not null default now(),
+  player_score_id bigint references public.player_scores (id) on delete set null,
+  constraint daily_attempts_player_day_key unique (player_address, daily_date)
+);
+
+alter table public.daily_attempts enable row level security;
+
+create policy "Daily attempts can be claimed" on public.daily_attempts
+  for insert to anon, authenticated with check (player_score_id is null);
+
+create policy "Daily attempts are readable" on public.daily_attempts
+  for select to anon, authenticated using (true);
+
+-- An attempt's score can be set once and nothing else about it can change;
+-- with no delete policy an attempt can't be given back either
+revoke update on public.daily_attempts from anon, authenticated;
+grant update (player_score_id) on public.daily_attempts to anon, authenticated;
+
+create policy "Daily attempts take their score once" on public.daily_attempts
+  for update to anon, authenticated using (player_score_id is null) with check (true);
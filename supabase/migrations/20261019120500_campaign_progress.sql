@@ -0,0 +1,23 @@
+-- Campaign level a game was played on (null outside the campaign)
+alter table public.game_results
+  add column if not exists level_id text;
+
+-- Best stars per wallet and campaign level; the game only saves an improvement
+create table if not exists public.campaign_progress (
+  player_address text not null,
+  level_id text not null,
+  stars smallint not null check (stars between 0 and 3),
+  updated_at timestamptz not null default now(),
+  primary key (player_address, level_id)
+);
+
+alter table public.campaign_progress enable row level security;
+
+create policy "Campaign progress is readable" on public.campaign_progress
+  for select to anon, authenticated using (true);
+
+create policy "Campaign progress can be recorded" on public.campaign_progress
+  for insert to anon, authenticated with check (true);
+
+create policy "Campaign progress can be improved" on public.campaign_progress
+  for update to anon, authenticated using (true) with check (true);
@@ -1,8 +1,44 @@
-import { defineConfig } from "vite";
+import { defineConfig, Plugin } from "vite";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
+import fs from "fs";
 import { componentTagger } from "lovable-tagger";
 
+// MediaPipe Hands fetches its WASM, loaders and model at runtime from wherever
+// locateFile points; serve them in dev and emit them into the build under
+// /mediapipe/hands/ so hand mode never needs a CDN
+const HANDS_DIR = path.resolve(__dirname, "node_modules/@mediapipe/hands");
+const HANDS_ASSET = /\.(wasm|data|tflite|binarypb)$|^hands_solution_.*\.js$/;
+const CONTENT_TYPES: Record<string, string> = {
+  ".js": "text/javascript",
+  ".wasm": "application/wasm",
+};
+
+function mediapipeHandsAssets(): Plugin {
+  const assets = () => fs.readdirSync(HANDS_DIR).filter(file => HANDS_ASSET.test(file));
+  return {
+    name: "mediapipe-hands-assets",
+    configureServer(server) {
+      server.middlewares.use("/mediapipe/hands", (req, res, next) => {
+        const file = path.basename(req.url?.split("?")[0] ?? "");
+        const filePath = path.join(HANDS_DIR, file);
+        if (!HANDS_ASSET.test(file) || !fs.existsSync(filePath)) return next();
+        res.setHeader("Content-Type", CONTENT_TYPES[path.extname(file)] ?? "application/octet-stream");
+        fs.createReadStream(filePath).pipe(res);
+      });
+    },
+    generateBundle() {
+      for (const file of assets()) {
+        this.emitFile({
+          type: "asset",
+          fileName: `mediapipe/hands/${file}`,
+          source: fs.readFileSync(path.join(HANDS_DIR, file)),
+        });
+      }
+    },
+  };
+}
+
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => ({
   server: {
@@ -11,6 +47,7 @@ export default defineConfig(({ mode }) => ({
   },
   plugins: [
     react(),
+    mediapipeHandsAssets(),
     mode === 'development' &&
     componentTagger(),
   ].filter(Boolean),